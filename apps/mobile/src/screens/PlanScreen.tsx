@@ -1,5 +1,6 @@
 import React, { useCallback, useMemo, useState } from 'react';
 import { Alert, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { type WorkoutDiagnostic, analyzeWorkout } from '@paceforge/generator';
 import {
   useSession,
   type IntervalSettings,
@@ -13,14 +14,43 @@ const numberFromInput = (value: string, fallback: number) => {
   return Number.isNaN(parsed) ? fallback : parsed;
 };
 
+// Blank clears an optional setting so the generator falls back to its default.
+const optionalNumberFromInput = (value: string, fallback?: number) => {
+  if (value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
 type PlanScreenProps = {
   onNavigateToRunner: () => void;
 };
 
 export const PlanScreen: React.FC<PlanScreenProps> = ({ onNavigateToRunner }) => {
-  const { plan, setPlanMode, updateIntervals, updateSteady, updateProgression, buildWorkout, setWorkout } = useSession();
+  const {
+    plan,
+    deviceProfile,
+    setPlanMode,
+    updateIntervals,
+    updateSteady,
+    updateProgression,
+    buildWorkout,
+    setWorkout,
+    logSession,
+    proposal,
+    applyProposal
+  } = useSession();
   const [busy, setBusy] = useState(false);
 
+  const diagnostics = useMemo<WorkoutDiagnostic[]>(() => {
+    try {
+      return analyzeWorkout(deviceProfile, buildWorkout());
+    } catch {
+      return [];
+    }
+  }, [buildWorkout, deviceProfile]);
+
   const modes = useMemo(
     () => [
       { key: 'intervals' as PlanMode, label: 'Intervals' },
@@ -38,6 +68,7 @@ export const PlanScreen: React.FC<PlanScreenProps> = ({ onNavigateToRunner }) =>
     try {
       const workout = buildWorkout();
       setWorkout(workout);
+      logSession(workout);
       onNavigateToRunner();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to create workout.';
@@ -45,7 +76,7 @@ export const PlanScreen: React.FC<PlanScreenProps> = ({ onNavigateToRunner }) =>
     } finally {
       setBusy(false);
     }
-  }, [buildWorkout, busy, onNavigateToRunner, setWorkout]);
+  }, [buildWorkout, busy, logSession, onNavigateToRunner, setWorkout]);
 
   const renderIntervals = (settings: IntervalSettings) => (
     <View style={styles.section}>
@@ -99,6 +130,26 @@ export const PlanScreen: React.FC<PlanScreenProps> = ({ onNavigateToRunner }) =>
         value={String(settings.intensity)}
         onChange={(text) => updateSteady({ intensity: numberFromInput(text, settings.intensity) })}
       />
+      <PlanNumberInput
+        label="Warm-up (minutes)"
+        value={String(settings.warmupMins)}
+        onChange={(text) => updateSteady({ warmupMins: Math.max(0, numberFromInput(text, settings.warmupMins)) })}
+      />
+      <PlanNumberInput
+        label="Cool-down (minutes)"
+        value={String(settings.cooldownMins)}
+        onChange={(text) => updateSteady({ cooldownMins: Math.max(0, numberFromInput(text, settings.cooldownMins)) })}
+      />
+      <PlanNumberInput
+        label="Warm-up intensity (0-1, blank for default)"
+        value={settings.warmupIntensity === undefined ? '' : String(settings.warmupIntensity)}
+        onChange={(text) => updateSteady({ warmupIntensity: optionalNumberFromInput(text, settings.warmupIntensity) })}
+      />
+      <PlanNumberInput
+        label="Cool-down intensity (0-1, blank to match warm-up)"
+        value={settings.cooldownIntensity === undefined ? '' : String(settings.cooldownIntensity)}
+        onChange={(text) => updateSteady({ cooldownIntensity: optionalNumberFromInput(text, settings.cooldownIntensity) })}
+      />
       <View style={styles.switchRow}>
         <Text style={styles.switchLabel}>Include strides</Text>
         <Switch
@@ -108,6 +159,32 @@ export const PlanScreen: React.FC<PlanScreenProps> = ({ onNavigateToRunner }) =>
           thumbColor="#f0f6fc"
         />
       </View>
+      {settings.addStrides && (
+        <>
+          <PlanNumberInput
+            label="Strides"
+            value={String(settings.strides)}
+            onChange={(text) => updateSteady({ strides: Math.max(1, Math.round(numberFromInput(text, settings.strides))) })}
+          />
+          <PlanNumberInput
+            label="Stride (seconds)"
+            value={String(settings.strideSecs)}
+            onChange={(text) => updateSteady({ strideSecs: Math.max(5, Math.round(numberFromInput(text, settings.strideSecs))) })}
+          />
+          <PlanNumberInput
+            label="Stride float (seconds)"
+            value={String(settings.strideFloatSecs)}
+            onChange={(text) =>
+              updateSteady({ strideFloatSecs: Math.max(0, Math.round(numberFromInput(text, settings.strideFloatSecs))) })
+            }
+          />
+          <PlanNumberInput
+            label="Stride intensity (0-1)"
+            value={String(settings.strideIntensity)}
+            onChange={(text) => updateSteady({ strideIntensity: numberFromInput(text, settings.strideIntensity) })}
+          />
+        </>
+      )}
     </View>
   );
 
@@ -128,6 +205,26 @@ export const PlanScreen: React.FC<PlanScreenProps> = ({ onNavigateToRunner }) =>
         value={String(settings.topIntensity)}
         onChange={(text) => updateProgression({ topIntensity: numberFromInput(text, settings.topIntensity) })}
       />
+      <PlanNumberInput
+        label="Warm-up (minutes)"
+        value={String(settings.warmupMins)}
+        onChange={(text) => updateProgression({ warmupMins: Math.max(0, numberFromInput(text, settings.warmupMins)) })}
+      />
+      <PlanNumberInput
+        label="Cool-down (minutes)"
+        value={String(settings.cooldownMins)}
+        onChange={(text) => updateProgression({ cooldownMins: Math.max(0, numberFromInput(text, settings.cooldownMins)) })}
+      />
+      <PlanNumberInput
+        label="Warm-up intensity (0-1, blank for default)"
+        value={settings.warmupIntensity === undefined ? '' : String(settings.warmupIntensity)}
+        onChange={(text) => updateProgression({ warmupIntensity: optionalNumberFromInput(text, settings.warmupIntensity) })}
+      />
+      <PlanNumberInput
+        label="Cool-down intensity (0-1, blank to match warm-up)"
+        value={settings.cooldownIntensity === undefined ? '' : String(settings.cooldownIntensity)}
+        onChange={(text) => updateProgression({ cooldownIntensity: optionalNumberFromInput(text, settings.cooldownIntensity) })}
+      />
     </View>
   );
 
@@ -146,10 +243,35 @@ export const PlanScreen: React.FC<PlanScreenProps> = ({ onNavigateToRunner }) =>
         ))}
       </View>
 
+      {proposal && proposal.action !== 'start' && (
+        <View style={styles.proposal}>
+          <Text style={styles.proposalTitle}>Suggested next session</Text>
+          <Text style={styles.proposalText}>{proposal.reason}</Text>
+          {proposal.action !== 'hold' && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={applyProposal}>
+              <Text style={styles.secondaryText}>Apply Suggestion</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {plan.mode === 'intervals' && renderIntervals(plan.intervals)}
       {plan.mode === 'steady' && renderSteady(plan.steady)}
       {plan.mode === 'progression' && renderProgression(plan.progression)}
 
+      {diagnostics.length > 0 && (
+        <View style={styles.diagnostics}>
+          {diagnostics.map((diagnostic, index) => (
+            <Text
+              key={`${diagnostic.code}-${index}`}
+              style={[styles.diagnosticText, diagnostic.severity === 'warning' && styles.diagnosticWarning]}
+            >
+              {diagnostic.message}
+            </Text>
+          ))}
+        </View>
+      )}
+
       <TouchableOpacity style={styles.primaryButton} onPress={handleStart} disabled={busy}>
         <Text style={styles.primaryText}>{busy ? 'Preparing…' : 'Start Session'}</Text>
       </TouchableOpacity>
@@ -248,6 +370,56 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600'
   },
+  diagnostics: {
+    marginTop: 24,
+    gap: 8,
+    backgroundColor: '#161b22',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#9e6a03'
+  },
+  diagnosticText: {
+    color: '#8b949e',
+    fontSize: 14,
+    lineHeight: 20
+  },
+  diagnosticWarning: {
+    color: '#d29922'
+  },
+  proposal: {
+    marginTop: 24,
+    gap: 8,
+    backgroundColor: '#161b22',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#1f6feb'
+  },
+  proposalTitle: {
+    color: '#c9d1d9',
+    fontSize: 16,
+    fontWeight: '600'
+  },
+  proposalText: {
+    color: '#8b949e',
+    fontSize: 14,
+    lineHeight: 20
+  },
+  secondaryButton: {
+    marginTop: 4,
+    backgroundColor: '#21262d',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#30363d'
+  },
+  secondaryText: {
+    color: '#c9d1d9',
+    fontSize: 16,
+    fontWeight: '600'
+  },
   primaryButton: {
     marginTop: 32,
     backgroundColor: '#2ea043',
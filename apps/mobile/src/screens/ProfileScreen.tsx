@@ -7,11 +7,16 @@ const formatSpeeds = (speeds: number[]) => speeds.join(', ');
 export const ProfileScreen: React.FC = () => {
   const { profile, updateProfile } = useSession();
   const [speedsInput, setSpeedsInput] = useState(formatSpeeds(profile.speeds));
+  const [massInput, setMassInput] = useState(profile.massKg ? String(profile.massKg) : '');
 
   useEffect(() => {
     setSpeedsInput(formatSpeeds(profile.speeds));
   }, [profile.speeds]);
 
+  useEffect(() => {
+    setMassInput(profile.massKg ? String(profile.massKg) : '');
+  }, [profile.massKg]);
+
   const unitButtons = useMemo(
     () => [
       { label: 'mph', value: 'mph' as const },
@@ -36,6 +41,22 @@ export const ProfileScreen: React.FC = () => {
     updateProfile({ speeds: sorted });
   };
 
+  const applyMass = () => {
+    const trimmed = massInput.trim();
+    if (!trimmed) {
+      updateProfile({ massKg: undefined });
+      return;
+    }
+
+    const value = Number(trimmed);
+    if (Number.isNaN(value) || value <= 0) {
+      Alert.alert('Invalid body mass', 'Enter your body mass in kilograms, or leave it blank.');
+      return;
+    }
+
+    updateProfile({ massKg: value });
+  };
+
   return (
     <View style={styles.container}>
       <Text style={styles.heading}>Device Profile</Text>
@@ -66,6 +87,19 @@ export const ProfileScreen: React.FC = () => {
         returnKeyType="done"
       />
       <Text style={styles.help}>Speeds are snapped to the closest allowed value when workouts are generated.</Text>
+
+      <Text style={[styles.label, styles.spaced]}>Body Mass (kg)</Text>
+      <TextInput
+        style={styles.input}
+        value={massInput}
+        onChangeText={setMassInput}
+        onBlur={applyMass}
+        placeholder="Optional, e.g. 70"
+        placeholderTextColor="#6e7681"
+        keyboardType="decimal-pad"
+        returnKeyType="done"
+      />
+      <Text style={styles.help}>Used to estimate calories burned. Leave blank to skip calorie estimates.</Text>
     </View>
   );
 };
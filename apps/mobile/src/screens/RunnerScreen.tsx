@@ -4,11 +4,11 @@ import * as Speech from 'expo-speech';
 import * as Haptics from 'expo-haptics';
 import { activateKeepAwakeAsync, deactivateKeepAwakeAsync } from 'expo-keep-awake';
 import Svg, { Circle } from 'react-native-svg';
-import { type Workout } from '@paceforge/generator';
+import { type SegmentPhase, type Workout, computeMetrics } from '@paceforge/generator';
 import { useSession } from '../store/SessionProvider';
 import { PaceForgeLogo } from '../components/PaceForgeLogo';
 
-type RunnerStatus = 'idle' | 'running' | 'paused' | 'finished';
+type RunnerStatus = 'idle' | 'running' | 'paused' | 'finished' | 'stopped';
 
 type RunnerScreenProps = {
   onReturnToPlan: () => void;
@@ -25,6 +25,16 @@ const formatTime = (seconds: number) => {
   return `${mins}:${secs}`;
 };
 
+const phaseColors: Record<SegmentPhase, string> = {
+  warmup: '#58a6ff',
+  work: '#f85149',
+  recovery: '#3fb950',
+  stride: '#d29922',
+  cooldown: '#58a6ff',
+  step: '#a371f7',
+  ramp: '#8b949e'
+};
+
 const segmentLabel = (segment: Workout['segments'][number], units: Workout['units']) => {
   if (segment.cue) {
     return segment.cue;
@@ -32,6 +42,8 @@ const segmentLabel = (segment: Workout['segments'][number], units: Workout['unit
   return `Speed ${segment.speed} ${units}`;
 };
 
+const RPE_VALUES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
 const ProgressRing: React.FC<{ progress: number; size: number; stroke: number }> = ({ progress, size, stroke }) => {
   const radius = (size - stroke) / 2;
   const circumference = 2 * Math.PI * radius;
@@ -57,13 +69,14 @@ const ProgressRing: React.FC<{ progress: number; size: number; stroke: number }>
 };
 
 export const RunnerScreen: React.FC<RunnerScreenProps> = ({ onReturnToPlan }) => {
-  const { workout } = useSession();
+  const { workout, submitFeedback } = useSession();
 
   const [status, setStatusState] = useState<RunnerStatus>('idle');
   const [segmentIndex, setSegmentIndexState] = useState(0);
   const [segmentElapsed, setSegmentElapsedState] = useState(0);
   const [totalElapsed, setTotalElapsedState] = useState(0);
   const [preEndAnnounced, setPreEndAnnouncedState] = useState(false);
+  const [feedbackRpe, setFeedbackRpe] = useState<number | undefined>(undefined);
 
   const statusRef = useRef<RunnerStatus>('idle');
   const segmentIndexRef = useRef(0);
@@ -104,6 +117,7 @@ export const RunnerScreen: React.FC<RunnerScreenProps> = ({ onReturnToPlan }) =>
     setSegmentElapsed(0);
     setTotalElapsed(0);
     setPreEndAnnounced(false);
+    setFeedbackRpe(undefined);
     completionSpokenRef.current = false;
     Speech.stop();
     void deactivateKeepAwakeAsync();
@@ -188,6 +202,23 @@ export const RunnerScreen: React.FC<RunnerScreenProps> = ({ onReturnToPlan }) =>
     resetState();
   }, [resetState]);
 
+  const handleEnd = useCallback(() => {
+    setStatus('stopped');
+    Speech.stop();
+  }, [setStatus]);
+
+  const handleFeedback = useCallback(
+    (rpe: number) => {
+      submitFeedback({
+        rpe,
+        completed: statusRef.current === 'finished',
+        segmentIndex: statusRef.current === 'stopped' ? segmentIndexRef.current : undefined
+      });
+      setFeedbackRpe(rpe);
+    },
+    [submitFeedback]
+  );
+
   useEffect(() => {
     workoutRef.current = workout;
     resetState();
@@ -260,11 +291,17 @@ export const RunnerScreen: React.FC<RunnerScreenProps> = ({ onReturnToPlan }) =>
   }, [announcePreEnd, announceSegment, setPreEndAnnounced, setSegmentElapsed, setSegmentIndex, setStatus, setTotalElapsed, speak, status, workout]);
 
   const summary = useMemo(() => {
+    if (workout && status === 'stopped') {
+      return `Stopped in segment ${segmentIndex + 1} of ${workout.segments.length} after ${formatTime(totalElapsed)}.`;
+    }
     if (!workout || status !== 'finished') {
       return null;
     }
-    return `Completed ${workout.segments.length} segments in ${formatTime(workout.totalSecs)}.`;
-  }, [status, workout]);
+    const metrics = workout.metrics ?? computeMetrics(workout);
+    const distance = `${metrics.distance.toFixed(2)} ${metrics.distanceUnit}`;
+    const energy = metrics.kcal !== undefined ? ` · ~${Math.round(metrics.kcal)} kcal` : '';
+    return `Completed ${workout.segments.length} segments in ${formatTime(workout.totalSecs)}.\n${distance}${energy}`;
+  }, [segmentIndex, status, totalElapsed, workout]);
 
   if (!workout) {
     return (
@@ -298,7 +335,10 @@ export const RunnerScreen: React.FC<RunnerScreenProps> = ({ onReturnToPlan }) =>
         </View>
         <View style={styles.segmentInfo}>
           <Text style={styles.segmentLabel}>Current</Text>
-          <Text style={styles.segmentValue} numberOfLines={2}>
+          <Text
+            style={[styles.segmentValue, currentSegment?.phase && { color: phaseColors[currentSegment.phase] }]}
+            numberOfLines={2}
+          >
             {currentSegment ? segmentLabel(currentSegment, workout.units) : '—'}
           </Text>
           <Text style={[styles.segmentLabel, styles.segmentLabelSpaced]}>Next</Text>
@@ -329,12 +369,15 @@ export const RunnerScreen: React.FC<RunnerScreenProps> = ({ onReturnToPlan }) =>
             <TouchableOpacity style={[styles.primaryButton, styles.controlButton]} onPress={handleResume}>
               <Text style={styles.primaryText}>Resume</Text>
             </TouchableOpacity>
+            <TouchableOpacity style={[styles.secondaryButton, styles.controlButton]} onPress={handleEnd}>
+              <Text style={styles.secondaryText}>End</Text>
+            </TouchableOpacity>
             <TouchableOpacity style={[styles.secondaryButton, styles.controlButton]} onPress={handleReset}>
               <Text style={styles.secondaryText}>Reset</Text>
             </TouchableOpacity>
           </View>
         )}
-        {status === 'finished' && (
+        {(status === 'finished' || status === 'stopped') && (
           <View style={styles.controlRow}>
             <TouchableOpacity style={[styles.primaryButton, styles.controlButton]} onPress={handleReset}>
               <Text style={styles.primaryText}>Restart</Text>
@@ -349,6 +392,22 @@ export const RunnerScreen: React.FC<RunnerScreenProps> = ({ onReturnToPlan }) =>
       {summary && (
         <View style={styles.summary}>
           <Text style={styles.summaryText}>{summary}</Text>
+          {feedbackRpe === undefined ? (
+            <>
+              <Text style={[styles.segmentLabel, styles.feedbackLabel]}>How hard was it? (RPE)</Text>
+              <View style={styles.rpeRow}>
+                {RPE_VALUES.map((rpe) => (
+                  <TouchableOpacity key={rpe} style={styles.rpeButton} onPress={() => handleFeedback(rpe)}>
+                    <Text style={styles.secondaryText}>{rpe}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          ) : (
+            <Text style={[styles.subtle, styles.feedbackLabel]}>
+              Saved RPE {feedbackRpe}. Your next session is suggested on the Plan screen.
+            </Text>
+          )}
         </View>
       )}
     </View>
@@ -486,5 +545,25 @@ const styles = StyleSheet.create({
     color: '#c9d1d9',
     fontSize: 16,
     textAlign: 'center'
+  },
+  feedbackLabel: {
+    marginTop: 16,
+    textAlign: 'center'
+  },
+  rpeRow: {
+    marginTop: 8,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8
+  },
+  rpeButton: {
+    width: 44,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 10,
+    backgroundColor: '#21262d',
+    borderWidth: 1,
+    borderColor: '#30363d'
   }
 });
@@ -1,11 +1,17 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
+  type AdaptiveProposal,
   type DeviceProfile,
+  type SessionFeedback,
+  type SessionRecord,
   type Workout,
   makeIntervals,
   makeProgression,
-  makeSteady
+  makeSteady,
+  proposeNextSession,
+  recordFeedback,
+  sessionRecordSchema
 } from '@paceforge/generator';
 
 type Units = DeviceProfile['units'];
@@ -13,6 +19,7 @@ type Units = DeviceProfile['units'];
 type Profile = {
   units: Units;
   speeds: number[];
+  massKg?: number;
 };
 
 type PlanMode = 'intervals' | 'steady' | 'progression';
@@ -30,13 +37,25 @@ type IntervalSettings = {
 type SteadySettings = {
   totalMins: number;
   intensity: number;
+  warmupMins: number;
+  cooldownMins: number;
+  warmupIntensity?: number;
+  cooldownIntensity?: number;
   addStrides: boolean;
+  strides: number;
+  strideSecs: number;
+  strideFloatSecs: number;
+  strideIntensity: number;
 };
 
 type ProgressionSettings = {
   totalMins: number;
   steps: number;
   topIntensity: number;
+  warmupMins: number;
+  cooldownMins: number;
+  warmupIntensity?: number;
+  cooldownIntensity?: number;
 };
 
 type PlanState = {
@@ -48,6 +67,7 @@ type PlanState = {
 
 type SessionContextValue = {
   profile: Profile;
+  deviceProfile: DeviceProfile;
   updateProfile: (partial: Partial<Profile>) => void;
   plan: PlanState;
   setPlanMode: (mode: PlanMode) => void;
@@ -57,10 +77,16 @@ type SessionContextValue = {
   workout: Workout | undefined;
   setWorkout: (workout: Workout | undefined) => void;
   buildWorkout: (mode?: PlanMode) => Workout;
+  history: SessionRecord[];
+  logSession: (workout: Workout) => void;
+  submitFeedback: (feedback: SessionFeedback) => void;
+  proposal: AdaptiveProposal | undefined;
+  applyProposal: () => void;
   hydrated: boolean;
 };
 
 const PROFILE_KEY = '@paceforge/profile';
+const HISTORY_KEY = '@paceforge/history';
 
 const defaultProfile: Profile = {
   units: 'mph',
@@ -81,12 +107,20 @@ const defaultPlan: PlanState = {
   steady: {
     totalMins: 30,
     intensity: 0.65,
-    addStrides: true
+    warmupMins: 5,
+    cooldownMins: 5,
+    addStrides: true,
+    strides: 4,
+    strideSecs: 20,
+    strideFloatSecs: 40,
+    strideIntensity: 0.9
   },
   progression: {
     totalMins: 30,
     steps: 4,
-    topIntensity: 0.8
+    topIntensity: 0.8,
+    warmupMins: 5,
+    cooldownMins: 5
   }
 };
 
@@ -96,19 +130,36 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const [profile, setProfile] = useState<Profile>(defaultProfile);
   const [plan, setPlan] = useState<PlanState>(defaultPlan);
   const [workout, setWorkout] = useState<Workout | undefined>(undefined);
+  const [history, setHistory] = useState<SessionRecord[]>([]);
   const [hydrated, setHydrated] = useState(false);
   const isFirstProfileUpdate = useRef(true);
+  const isFirstHistoryUpdate = useRef(true);
 
   useEffect(() => {
     const loadProfile = async () => {
       try {
+        const storedHistory = await AsyncStorage.getItem(HISTORY_KEY);
+        if (storedHistory) {
+          const parsed: unknown = JSON.parse(storedHistory);
+          if (Array.isArray(parsed)) {
+            // Entries that no longer match the session schema are dropped instead of reaching the proposals.
+            setHistory(
+              parsed.flatMap((entry) => {
+                const result = sessionRecordSchema.safeParse(entry);
+                return result.success ? [result.data] : [];
+              })
+            );
+          }
+        }
+
         const stored = await AsyncStorage.getItem(PROFILE_KEY);
         if (stored) {
           const parsed = JSON.parse(stored) as Partial<Profile>;
           if (parsed && Array.isArray(parsed.speeds) && parsed.units) {
             setProfile({
               units: parsed.units as Units,
-              speeds: parsed.speeds.map((value) => Number(value)).filter((value) => !Number.isNaN(value))
+              speeds: parsed.speeds.map((value) => Number(value)).filter((value) => !Number.isNaN(value)),
+              massKg: typeof parsed.massKg === 'number' && parsed.massKg > 0 ? parsed.massKg : undefined
             });
           }
         }
@@ -117,6 +168,7 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
       } finally {
         setHydrated(true);
         isFirstProfileUpdate.current = false;
+        isFirstHistoryUpdate.current = false;
       }
     };
 
@@ -139,6 +191,22 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     void persist();
   }, [profile]);
 
+  useEffect(() => {
+    if (isFirstHistoryUpdate.current) {
+      return;
+    }
+
+    const persist = async () => {
+      try {
+        await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+      } catch (error) {
+        console.warn('Failed to persist session history', error);
+      }
+    };
+
+    void persist();
+  }, [history]);
+
   const updateProfile = useCallback((partial: Partial<Profile>) => {
     setProfile((current) => ({ ...current, ...partial }));
   }, []);
@@ -168,19 +236,23 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }));
   }, []);
 
+  const deviceProfile = useMemo<DeviceProfile>(
+    () => ({
+      name: 'Mobile Profile',
+      units: profile.units,
+      speeds: [...profile.speeds].sort((a, b) => a - b),
+      user: profile.massKg ? { massKg: profile.massKg } : undefined
+    }),
+    [profile]
+  );
+
   const buildWorkout = useCallback(
     (mode?: PlanMode) => {
       const resolvedMode = mode ?? plan.mode;
-      if (!profile.speeds.length) {
+      if (!deviceProfile.speeds.length) {
         throw new Error('Add at least one speed before generating a workout.');
       }
 
-      const deviceProfile: DeviceProfile = {
-        name: 'Mobile Profile',
-        units: profile.units,
-        speeds: [...profile.speeds].sort((a, b) => a - b)
-      };
-
       switch (resolvedMode) {
         case 'steady':
           return makeSteady(deviceProfile, plan.steady);
@@ -190,12 +262,68 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
           return makeIntervals(deviceProfile, plan.intervals);
       }
     },
-    [plan, profile]
+    [deviceProfile, plan]
+  );
+
+  // Each started workout is logged with the settings that built it, so feedback can adapt them.
+  const logSession = useCallback(
+    (started: Workout) => {
+      const date = new Date().toISOString().slice(0, 10);
+      const segmentCount = started.segments.length;
+      const record: SessionRecord =
+        plan.mode === 'steady'
+          ? { kind: 'steady', opts: { ...plan.steady }, date, segmentCount }
+          : plan.mode === 'progression'
+            ? { kind: 'progression', opts: { ...plan.progression }, date, segmentCount }
+            : { kind: 'intervals', opts: { ...plan.intervals }, date, segmentCount };
+      setHistory((current) => [...current, record]);
+    },
+    [plan]
   );
 
+  const submitFeedback = useCallback((feedback: SessionFeedback) => {
+    setHistory((current) => {
+      try {
+        return recordFeedback(current, feedback);
+      } catch (error) {
+        console.warn('Failed to record feedback', error);
+        return current;
+      }
+    });
+  }, []);
+
+  const proposal = useMemo(() => {
+    if (!history.some((record) => record.kind === plan.mode && record.feedback) || !deviceProfile.speeds.length) {
+      return undefined;
+    }
+    try {
+      return proposeNextSession(deviceProfile, history, plan.mode);
+    } catch {
+      return undefined;
+    }
+  }, [deviceProfile, history, plan.mode]);
+
+  const applyProposal = useCallback(() => {
+    if (!proposal) {
+      return;
+    }
+    // The proposal carries the full opts of the session it adapts, so apply all of them.
+    switch (proposal.kind) {
+      case 'steady':
+        updateSteady(proposal.opts);
+        break;
+      case 'progression':
+        updateProgression(proposal.opts);
+        break;
+      default:
+        updateIntervals(proposal.opts);
+    }
+  }, [proposal, updateIntervals, updateProgression, updateSteady]);
+
   const value = useMemo(
     () => ({
       profile,
+      deviceProfile,
       updateProfile,
       plan,
       setPlanMode,
@@ -205,9 +333,30 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
       workout,
       setWorkout,
       buildWorkout,
+      history,
+      logSession,
+      submitFeedback,
+      proposal,
+      applyProposal,
       hydrated
     }),
-    [buildWorkout, hydrated, plan, profile, updateProfile, updateIntervals, updateProgression, updateSteady, workout]
+    [
+      applyProposal,
+      buildWorkout,
+      deviceProfile,
+      history,
+      hydrated,
+      logSession,
+      plan,
+      profile,
+      proposal,
+      submitFeedback,
+      updateProfile,
+      updateIntervals,
+      updateProgression,
+      updateSteady,
+      workout
+    ]
   );
 
   return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
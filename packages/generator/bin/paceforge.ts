@@ -1,15 +1,57 @@
 #!/usr/bin/env node
-import { readFileSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
 import { Command, InvalidOptionArgumentError, Option } from 'commander';
 import { z } from 'zod';
 import {
+  type AdaptiveSession,
   type DeviceProfile,
+  type Distance,
+  type HillPattern,
+  type HrZone,
+  type ImportFormat,
+  type IntensityReference,
+  type IntervalStructure,
+  type PlanGoal,
+  type ProgressionShape,
+  type QuantizeStrategy,
+  type RampPolicy,
+  type SessionRecord,
+  type Weekday,
   type Workout,
+  type WorkoutBlock,
+  type WorkoutTemplate,
+  analyzeWorkout,
+  compileWorkoutSpec,
   describe,
+  HR_ZONES,
+  detectImportFormat,
+  encodeFitWorkout,
+  encodeIcsCalendar,
+  encodeZwoWorkout,
+  findTemplate,
+  formatPlanSummary,
+  importWorkout,
+  makeDistance,
+  makeHills,
   makeIntervals,
+  makePlan,
   makeProgression,
+  makeSessionWorkout,
   makeSteady,
+  mergeTemplates,
+  paceToSpeed,
+  paceUnitFor,
+  parseDistance,
+  parsePace,
+  parseWeekdays,
+  proposeNextSession,
+  recordFeedback,
+  renderTemplate,
+  resolveTemplateSpec,
+  retarget,
+  sessionHistorySchema,
+  toMetres,
 } from '../src/index.js';
 
 const deviceProfileSchema = z
@@ -20,11 +62,111 @@ const deviceProfileSchema = z
     inclines: z.array(z.number()).optional(),
     minSegmentSec: z.number().min(1).optional(),
     rampLimitPerChange: z.number().min(0).optional(),
+    rampPolicy: z.union([z.literal('clamp'), z.literal('step')]).optional(),
+    rampStepSecs: z.number().min(1).optional(),
+    inclineRampLimitPerChange: z.number().min(0).optional(),
+    quantize: z.union([z.literal('down'), z.literal('nearest'), z.literal('up'), z.literal('dither')]).optional(),
+    intensityReference: z.union([z.literal('max'), z.literal('range'), z.literal('threshold')]).optional(),
+    thresholdSpeed: z.number().positive().optional(),
+    highSpeedThreshold: z.number().positive().optional(),
+    maxHighSpeedSecs: z.number().min(1).optional(),
+    coolOffSecs: z.number().min(1).optional(),
+    maxSessionSecs: z.number().min(1).optional(),
+    user: z
+      .object({
+        maxHr: z.number().positive().optional(),
+        lthr: z.number().positive().optional(),
+        zoneSpeeds: z
+          .object({
+            z1: z.number().positive().optional(),
+            z2: z.number().positive().optional(),
+            z3: z.number().positive().optional(),
+            z4: z.number().positive().optional(),
+            z5: z.number().positive().optional(),
+          })
+          .strict()
+          .optional(),
+        massKg: z.number().positive().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict();
 
 type DeviceProfileInput = z.infer<typeof deviceProfileSchema>;
 
+const templateFileSchema = z.array(
+  z
+    .object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      description: z.string().default(''),
+      spec: z.string().min(1),
+      params: z.record(z.number()).default({}),
+    })
+    .strict(),
+);
+
+const positionSchema = z
+  .object({
+    kind: z.union([z.literal('repeat'), z.literal('set')]),
+    index: z.number().int().positive(),
+    count: z.number().int().positive(),
+  })
+  .strict();
+
+// Device annotations (pace, zone, heart rate) are left out: retargeting works them out again.
+const segmentSchema = z.object({
+  secs: z.number().nonnegative(),
+  speed: z.number().nonnegative(),
+  incline: z.number().optional(),
+  cue: z.string().optional(),
+  phase: z
+    .union([
+      z.literal('warmup'),
+      z.literal('work'),
+      z.literal('recovery'),
+      z.literal('stride'),
+      z.literal('cooldown'),
+      z.literal('step'),
+      z.literal('ramp'),
+    ])
+    .optional(),
+  label: z.string().optional(),
+  repeat: z.object({ index: z.number().int().positive(), count: z.number().int().positive() }).strict().optional(),
+  position: z.array(positionSchema).optional(),
+  targetSpeed: z.number().optional(),
+  safety: z
+    .object({ clamped: z.boolean().optional(), merged: z.boolean().optional(), dutyCycle: z.boolean().optional() })
+    .strict()
+    .optional(),
+});
+
+const blockSchema: z.ZodType<WorkoutBlock> = z.lazy(() =>
+  z.union([
+    z.object({ type: z.literal('step'), segment: segmentSchema }),
+    z.object({ type: z.literal('repeat'), count: z.number().int().nonnegative(), blocks: z.array(blockSchema) }),
+    z.object({
+      type: z.literal('set'),
+      count: z.number().int().nonnegative(),
+      blocks: z.array(blockSchema),
+      rest: segmentSchema.optional(),
+    }),
+  ]),
+);
+
+const workoutFileSchema = z.object({
+  name: z.string(),
+  units: z.union([z.literal('mph'), z.literal('kph')]),
+  segments: z.array(segmentSchema).min(1),
+  blocks: z.array(blockSchema).optional(),
+  plannedSecs: z.number().optional(),
+});
+
+const SESSION_KINDS: AdaptiveSession['kind'][] = ['intervals', 'steady', 'progression'];
+
+type OutputFormat = 'text' | 'json' | 'fit' | 'zwo';
+
 type ParsedOptions = Record<string, unknown> & {
   strides?: boolean;
 };
@@ -50,95 +192,604 @@ const parseInteger = (label: string) => {
   };
 };
 
-const parseSpeeds = (value: string) => {
-  const parts = value
-    .split(',')
-    .map((part) => part.trim())
-    .filter((part) => part.length > 0);
-  if (!parts.length) {
-    throw new InvalidOptionArgumentError('Speeds list cannot be empty.');
-  }
-  const speeds = parts.map((part) => {
-    const parsed = Number(part);
-    if (Number.isNaN(parsed)) {
-      throw new InvalidOptionArgumentError(`Invalid speed: ${part}`);
+const parsePositiveInteger = (label: string) => {
+  const parse = parseInteger(label);
+  return (value: string) => {
+    const parsed = parse(value);
+    if (parsed < 1) {
+      throw new InvalidOptionArgumentError(`Expected ${label} to be at least 1, received ${value}`);
     }
     return parsed;
-  });
-  return speeds;
+  };
+};
+
+const parseNumberList = (label: string, plural: string) => {
+  return (value: string) => {
+    const parts = value
+      .split(',')
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0);
+    if (!parts.length) {
+      throw new InvalidOptionArgumentError(`${plural} list cannot be empty.`);
+    }
+    return parts.map((part) => {
+      const parsed = Number(part);
+      if (Number.isNaN(parsed)) {
+        throw new InvalidOptionArgumentError(`Invalid ${label}: ${part}`);
+      }
+      return parsed;
+    });
+  };
+};
+
+const parsePaceOption = (label: string) => {
+  return (value: string) => {
+    try {
+      parsePace(value);
+    } catch {
+      throw new InvalidOptionArgumentError(`Invalid ${label}: ${value} (expected mm:ss/mi or mm:ss/km)`);
+    }
+    return value;
+  };
+};
+
+const parseDistanceOption = (label: string) => {
+  return (value: string) => {
+    try {
+      return parseDistance(value);
+    } catch {
+      throw new InvalidOptionArgumentError(`Invalid ${label}: ${value} (expected e.g. 400m, 5km, or 3mi)`);
+    }
+  };
+};
+
+const parseWeekdayOption = (value: string) => {
+  try {
+    return parseWeekdays(value);
+  } catch (error) {
+    throw new InvalidOptionArgumentError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const parseTemplateParam = (value: string, previous: Record<string, number> = {}) => {
+  const match = /^\s*(\w+)\s*=\s*(.+)$/.exec(value);
+  const parsed = match ? Number(match[2]) : Number.NaN;
+  if (!match || Number.isNaN(parsed)) {
+    throw new InvalidOptionArgumentError(`Invalid parameter: ${value} (expected key=number)`);
+  }
+  return { ...previous, [match[1]]: parsed };
 };
 
+const parseSpeeds = parseNumberList('speed', 'Speeds');
+const parseInclines = parseNumberList('incline', 'Inclines');
+
+function withProfileOptions(command: Command): Command {
+  return command
+    .addOption(new Option('--units <units>', 'Device units').choices(['mph', 'kph']).default('mph'))
+    .option('--speeds <list>', 'Comma-separated allowed speeds (e.g. 1,1.5,2)', parseSpeeds)
+    .option('--inclines <list>', 'Comma-separated allowed inclines in percent (e.g. 0,2,4,6)', parseInclines)
+    .option('--profile-file <path>', 'Path to a device profile JSON file')
+    .option('--minSegmentSec <seconds>', 'Minimum segment length (seconds)', parseInteger('minSegmentSec'))
+    .option('--rampLimit <delta>', 'Maximum allowed change per segment', parseNumber('rampLimit'))
+    .addOption(
+      new Option('--rampPolicy <policy>', 'How to handle jumps beyond the ramp limit').choices(['clamp', 'step']),
+    )
+    .option('--rampStepSecs <seconds>', 'Duration of each inserted ramp step (seconds)', parseInteger('rampStepSecs'))
+    .option('--inclineRampLimit <delta>', 'Maximum allowed incline change per segment', parseNumber('inclineRampLimit'))
+    .addOption(
+      new Option('--quantize <strategy>', 'How targets snap to allowed speeds').choices([
+        'down',
+        'nearest',
+        'up',
+        'dither',
+      ]),
+    )
+    .addOption(
+      new Option(
+        '--intensityReference <model>',
+        'Scale intensity fractions by the top speed (max), the speed range (range), or --thresholdSpeed (threshold)',
+      ).choices(['max', 'range', 'threshold']),
+    )
+    .option(
+      '--thresholdSpeed <speed>',
+      'Threshold or comfortable speed for --intensityReference threshold',
+      parseNumber('thresholdSpeed'),
+    )
+    .option(
+      '--highSpeedThreshold <speed>',
+      'Speed at or above which the motor duty cycle applies',
+      parseNumber('highSpeedThreshold'),
+    )
+    .option(
+      '--maxHighSpeedSecs <seconds>',
+      'Longest continuous run at or above --highSpeedThreshold (seconds)',
+      parseInteger('maxHighSpeedSecs'),
+    )
+    .option(
+      '--coolOffSecs <seconds>',
+      'Time below the threshold that resets the duty cycle (seconds)',
+      parseInteger('coolOffSecs'),
+    )
+    .option(
+      '--maxSessionSecs <seconds>',
+      'Longest session the device allows (seconds)',
+      parseInteger('maxSessionSecs'),
+    );
+}
+
+function withOutputOptions(command: Command): Command {
+  return command
+    .addOption(new Option('--out <format>', 'Output format').choices(['text', 'json', 'fit', 'zwo']).default('text'))
+    .option('--file <path>', 'Write the output to a file instead of stdout (required for fit)')
+    .option('--name <name>', 'Override workout name')
+    .option('--strict', 'Exit with a non-zero status when the workout has safety warnings');
+}
+
 const program = new Command();
 program
   .name('paceforge')
   .description('Generate treadmill-style workouts for discrete-speed devices')
   .version('0.1.0');
 
-program
+const generateCommand = program
   .command('generate')
-  .summary('Generate a workout plan in intervals, steady, or progression mode')
-  .argument('[mode]', 'intervals | steady | progression', 'intervals')
-  .addOption(new Option('--units <units>', 'Device units').choices(['mph', 'kph']).default('mph'))
-  .option('--speeds <list>', 'Comma-separated allowed speeds (e.g. 1,1.5,2)', parseSpeeds)
-  .option('--profile-file <path>', 'Path to a device profile JSON file')
-  .option('--repeats <count>', 'Interval repeats', parseInteger('repeats'))
+  .summary('Generate a workout plan in intervals, steady, progression, hills, distance, or custom mode')
+  .argument('[mode]', 'intervals | steady | progression | hills | distance | custom', 'intervals')
+  .option('--repeats <count>', 'Interval repeats', parsePositiveInteger('repeats'))
+  .option('--sets <count>', 'Number of interval sets', parseInteger('sets'))
+  .option('--setRestSecs <seconds>', 'Rest between interval sets in seconds', parseInteger('setRestSecs'))
+  .addOption(
+    new Option('--structure <structure>', 'Interval rep lengths (pyramid and ladders grow by --repStep)')
+      .choices(['even', 'pyramid', 'ascending', 'descending'])
+      .default('even'),
+  )
+  .option('--repStep <seconds>', 'Seconds added per level of a pyramid or ladder (default 30)', parseInteger('repStep'))
+  .option('--repSecs <list>', 'Explicit rep lengths in seconds, e.g. 60,90,120,90,60', parseNumberList('rep', 'Rep'))
+  .option('--hardStep <fraction>', 'Hard intensity added on each successive rep', parseNumber('hardStep'))
+  .option(
+    '--recoveryRatio <ratio>',
+    'Recovery as a multiple of the preceding rep (overrides --easySecs)',
+    parseNumber('recoveryRatio'),
+  )
   .option('--hardSecs <seconds>', 'Hard interval duration in seconds', parseInteger('hardSecs'))
   .option('--easySecs <seconds>', 'Easy interval duration in seconds', parseInteger('easySecs'))
-  .option('--hard <intensity>', 'Hard intensity as a fraction of max speed', parseNumber('hard'))
-  .option('--easy <intensity>', 'Easy intensity as a fraction of max speed', parseNumber('easy'))
+  .option(
+    '--hard-distance <distance>',
+    'Hard interval distance, e.g. 400m (overrides --hardSecs)',
+    parseDistanceOption('hard distance'),
+  )
+  .option(
+    '--easy-distance <distance>',
+    'Easy interval distance, e.g. 200m (overrides --easySecs)',
+    parseDistanceOption('easy distance'),
+  )
+  .option('--distance <distance>', 'Distance goal for distance mode, e.g. 5km or 3mi', parseDistanceOption('distance'))
+  .option('--hard <intensity>', 'Hard intensity as a fraction of the reference speed', parseNumber('hard'))
+  .option('--easy <intensity>', 'Easy intensity as a fraction of the reference speed', parseNumber('easy'))
+  .option('--hard-pace <pace>', 'Hard target pace, e.g. 12:00/mi (overrides --hard)', parsePaceOption('hard pace'))
+  .option('--easy-pace <pace>', 'Easy/recovery target pace (overrides --easy)', parsePaceOption('easy pace'))
+  .addOption(new Option('--hard-zone <zone>', 'Hard heart-rate zone target (overrides --hard)').choices(HR_ZONES))
+  .addOption(
+    new Option('--easy-zone <zone>', 'Easy/recovery heart-rate zone target (overrides --easy)').choices(HR_ZONES),
+  )
   .option('--warmup <minutes>', 'Warm-up duration in minutes', parseNumber('warmup'))
   .option('--cooldown <minutes>', 'Cool-down duration in minutes', parseNumber('cooldown'))
   .option('--totalMins <minutes>', 'Total workout duration in minutes', parseNumber('totalMins'))
-  .option('--intensity <fraction>', 'Steady intensity as a fraction of max speed', parseNumber('intensity'))
+  .option('--intensity <fraction>', 'Steady intensity as a fraction of the reference speed', parseNumber('intensity'))
+  .option('--pace <pace>', 'Steady or hill target pace (overrides --intensity)', parsePaceOption('pace'))
+  .addOption(
+    new Option('--zone <zone>', 'Steady or hill heart-rate zone target (overrides --intensity)').choices(HR_ZONES),
+  )
   .option('--steps <count>', 'Number of progression steps', parseInteger('steps'))
-  .option('--top <fraction>', 'Top intensity as a fraction of max speed', parseNumber('top'))
+  .option('--top <fraction>', 'Top intensity as a fraction of the reference speed', parseNumber('top'))
+  .option('--top-pace <pace>', 'Top progression pace (overrides --top)', parsePaceOption('top pace'))
+  .addOption(new Option('--top-zone <zone>', 'Top progression heart-rate zone (overrides --top)').choices(HR_ZONES))
+  .addOption(new Option('--shape <shape>', 'Progression shape').choices(['ascending', 'descending', 'pyramid', 'hold']))
+  .option('--hold <minutes>', 'Minutes at the top speed for --shape hold (default 5)', parseNumber('hold'))
+  .addOption(
+    new Option('--weighting <weighting>', 'Give faster progression steps more time (top)').choices(['even', 'top']),
+  )
+  .option(
+    '--warmupIntensity <fraction>',
+    'Warm-up intensity for steady and progression workouts',
+    parseNumber('warmupIntensity'),
+  )
+  .option(
+    '--cooldownIntensity <fraction>',
+    'Cool-down intensity for steady and progression workouts (default: the warm-up intensity)',
+    parseNumber('cooldownIntensity'),
+  )
   .option('--no-strides', 'Disable strides in steady workouts')
-  .option('--minSegmentSec <seconds>', 'Minimum segment length (seconds)', parseInteger('minSegmentSec'))
-  .option('--rampLimit <delta>', 'Maximum allowed change per segment', parseNumber('rampLimit'))
-  .addOption(new Option('--out <format>', 'Output format').choices(['text', 'json']).default('text'))
-  .option('--name <name>', 'Override workout name')
-  .action((mode: string, options: ParsedOptions) => {
-    try {
-      const profile = resolveProfile(options);
-      const outFormat = (options.out as 'text' | 'json' | undefined) ?? 'text';
-
-      switch (mode) {
-        case 'intervals': {
-          const workout = makeIntervals(profile, {
-            name: (options.name as string | undefined) ?? undefined,
-            warmupMins: options.warmup as number | undefined,
-            cooldownMins: options.cooldown as number | undefined,
-            repeats: options.repeats as number | undefined,
-            hardSecs: options.hardSecs as number | undefined,
-            easySecs: options.easySecs as number | undefined,
-            hardIntensity: options.hard as number | undefined,
-            easyIntensity: options.easy as number | undefined,
-          });
-          emitWorkout(workout, outFormat);
-          break;
-        }
-        case 'steady': {
-          const workout = makeSteady(profile, {
-            name: (options.name as string | undefined) ?? undefined,
-            totalMins: options.totalMins as number | undefined,
-            intensity: options.intensity as number | undefined,
-            addStrides: options.strides as boolean | undefined,
-          });
-          emitWorkout(workout, outFormat);
-          break;
-        }
-        case 'progression': {
-          const workout = makeProgression(profile, {
-            name: (options.name as string | undefined) ?? undefined,
-            totalMins: options.totalMins as number | undefined,
-            steps: options.steps as number | undefined,
-            topIntensity: options.top as number | undefined,
-          });
-          emitWorkout(workout, outFormat);
-          break;
+  .option('--strideCount <count>', 'Number of strides in steady workouts (default 4)', parseInteger('strideCount'))
+  .option('--strideSecs <seconds>', 'Stride duration in seconds (default 20)', parseInteger('strideSecs'))
+  .option(
+    '--strideFloat <seconds>',
+    'Easy float after each stride in seconds (default 40)',
+    parseInteger('strideFloat'),
+  )
+  .option('--strideIntensity <fraction>', 'Stride intensity (default 0.9)', parseNumber('strideIntensity'))
+  .addOption(
+    new Option('--pattern <pattern>', 'Hill pattern').choices(['rolling', 'repeats', 'ladder']).default('rolling'),
+  )
+  .option('--hillSecs <seconds>', 'Hill (or ladder step) duration in seconds', parseInteger('hillSecs'))
+  .option('--recoverySecs <seconds>', 'Recovery duration between hills in seconds', parseInteger('recoverySecs'))
+  .option('--incline <fraction>', 'Steepest hill as a fraction of the incline range', parseNumber('incline'))
+  .option('--spec <text>', 'Custom workout notation, e.g. "5m @warm, 6x(90s @85%, 90s @55%), 5m @warm"');
+
+withOutputOptions(withProfileOptions(generateCommand)).action((mode: string, options: ParsedOptions) => {
+  try {
+    const profile = resolveProfile(options);
+    const outFormat = (options.out as OutputFormat | undefined) ?? 'text';
+    const metres = (value: unknown) =>
+      value ? toMetres((value as Distance).value, (value as Distance).unit) : undefined;
+    const paceSpeed = (value: unknown) =>
+      typeof value === 'string' ? paceToSpeed(parsePace(value, paceUnitFor(profile.units)), profile.units) : undefined;
+
+    let workout: Workout;
+    switch (mode) {
+      case 'intervals': {
+        workout = makeIntervals(profile, {
+          name: (options.name as string | undefined) ?? undefined,
+          warmupMins: options.warmup as number | undefined,
+          cooldownMins: options.cooldown as number | undefined,
+          repeats: options.repeats as number | undefined,
+          hardSecs: options.hardSecs as number | undefined,
+          easySecs: options.easySecs as number | undefined,
+          hardIntensity: options.hard as number | undefined,
+          easyIntensity: options.easy as number | undefined,
+          hardSpeed: paceSpeed(options.hardPace),
+          easySpeed: paceSpeed(options.easyPace),
+          hardZone: options.hardZone as HrZone | undefined,
+          easyZone: options.easyZone as HrZone | undefined,
+          hardDistance: metres(options.hardDistance),
+          easyDistance: metres(options.easyDistance),
+          distanceUnit: 'm',
+          sets: options.sets as number | undefined,
+          setRestSecs: options.setRestSecs as number | undefined,
+          structure: options.structure as IntervalStructure | undefined,
+          repStepSecs: options.repStep as number | undefined,
+          repSecs: options.repSecs as number[] | undefined,
+          hardIntensityStep: options.hardStep as number | undefined,
+          recoveryRatio: options.recoveryRatio as number | undefined,
+          totalMins: options.totalMins as number | undefined,
+        });
+        break;
+      }
+      case 'steady': {
+        workout = makeSteady(profile, {
+          name: (options.name as string | undefined) ?? undefined,
+          totalMins: options.totalMins as number | undefined,
+          intensity: options.intensity as number | undefined,
+          speed: paceSpeed(options.pace),
+          zone: options.zone as HrZone | undefined,
+          warmupMins: options.warmup as number | undefined,
+          cooldownMins: options.cooldown as number | undefined,
+          warmupIntensity: options.warmupIntensity as number | undefined,
+          cooldownIntensity: options.cooldownIntensity as number | undefined,
+          addStrides: options.strides as boolean | undefined,
+          strides: options.strideCount as number | undefined,
+          strideSecs: options.strideSecs as number | undefined,
+          strideFloatSecs: options.strideFloat as number | undefined,
+          strideIntensity: options.strideIntensity as number | undefined,
+        });
+        break;
+      }
+      case 'progression': {
+        workout = makeProgression(profile, {
+          name: (options.name as string | undefined) ?? undefined,
+          totalMins: options.totalMins as number | undefined,
+          steps: options.steps as number | undefined,
+          topIntensity: options.top as number | undefined,
+          topSpeed: paceSpeed(options.topPace),
+          topZone: options.topZone as HrZone | undefined,
+          shape: options.shape as ProgressionShape | undefined,
+          holdMins: options.hold as number | undefined,
+          weighting: options.weighting as 'even' | 'top' | undefined,
+          warmupMins: options.warmup as number | undefined,
+          cooldownMins: options.cooldown as number | undefined,
+          warmupIntensity: options.warmupIntensity as number | undefined,
+          cooldownIntensity: options.cooldownIntensity as number | undefined,
+        });
+        break;
+      }
+      case 'hills': {
+        workout = makeHills(profile, {
+          name: (options.name as string | undefined) ?? undefined,
+          pattern: options.pattern as HillPattern | undefined,
+          warmupMins: options.warmup as number | undefined,
+          cooldownMins: options.cooldown as number | undefined,
+          repeats: options.repeats as number | undefined,
+          hillSecs: options.hillSecs as number | undefined,
+          recoverySecs: options.recoverySecs as number | undefined,
+          intensity: options.intensity as number | undefined,
+          recoveryIntensity: options.easy as number | undefined,
+          speed: paceSpeed(options.pace),
+          recoverySpeed: paceSpeed(options.easyPace),
+          zone: options.zone as HrZone | undefined,
+          recoveryZone: options.easyZone as HrZone | undefined,
+          topIncline: options.incline as number | undefined,
+        });
+        break;
+      }
+      case 'distance': {
+        const goal = options.distance as Distance | undefined;
+        workout = makeDistance(profile, {
+          name: (options.name as string | undefined) ?? undefined,
+          distance: goal?.value,
+          distanceUnit: goal?.unit,
+          warmupMins: options.warmup as number | undefined,
+          cooldownMins: options.cooldown as number | undefined,
+          intensity: options.intensity as number | undefined,
+          speed: paceSpeed(options.pace),
+          zone: options.zone as HrZone | undefined,
+        });
+        break;
+      }
+      case 'custom': {
+        const spec = options.spec as string | undefined;
+        if (!spec) {
+          throw new Error('Provide --spec with a workout description for custom mode.');
         }
-        default:
-          throw new Error(`Unknown mode: ${mode}`);
+        workout = compileWorkoutSpec(profile, spec, {
+          name: (options.name as string | undefined) ?? undefined,
+        });
+        break;
+      }
+      default:
+        throw new Error(`Unknown mode: ${mode}`);
+    }
+
+    emitWorkout(profile, workout, outFormat, options.file as string | undefined);
+    reportDiagnostics(profile, workout, Boolean(options.strict));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exitCode = 1;
+  }
+});
+
+const importCommand = program
+  .command('import')
+  .summary('Import a .zwo, TCX, or CSV workout and fit it to a device profile')
+  .argument('<file>', 'Workout file to import')
+  .addOption(
+    new Option('--format <format>', 'Input format (defaults to the file extension)').choices(['zwo', 'tcx', 'csv']),
+  );
+
+withOutputOptions(withProfileOptions(importCommand)).action((file: string, options: ParsedOptions) => {
+  try {
+    const profile = resolveProfile(options);
+    const format = (options.format as ImportFormat | undefined) ?? detectImportFormat(file);
+    if (!format) {
+      throw new Error(`Cannot tell the format of ${file}; pass --format zwo, tcx, or csv.`);
+    }
+    const source = readFileSync(resolve(file), 'utf8');
+    const workout = importWorkout(profile, source, { format, name: options.name as string | undefined });
+
+    emitWorkout(
+      profile,
+      workout,
+      (options.out as OutputFormat | undefined) ?? 'text',
+      options.file as string | undefined,
+    );
+    reportDiagnostics(profile, workout, Boolean(options.strict));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exitCode = 1;
+  }
+});
+
+const planCommand = program
+  .command('plan')
+  .summary('Build a multi-week plan of intervals, steady, and progression workouts')
+  .addOption(new Option('--goal <goal>', 'Training goal').choices(['general', 'speed', 'endurance']).default('general'))
+  .option('--weeks <count>', 'Number of weeks (default 8)', parseInteger('weeks'))
+  .option('--days <count>', 'Training days per week (default 3)', parseInteger('days'))
+  .option('--start <date>', 'First day of the plan as YYYY-MM-DD (default today)')
+  .option('--out-dir <path>', 'Write each workout to a file in this directory')
+  .addOption(
+    new Option('--out <format>', 'Format of the workout files').choices(['text', 'json', 'fit', 'zwo']).default('text'),
+  )
+  .option('--strict', 'Exit with a non-zero status when any workout has safety warnings');
+
+withProfileOptions(planCommand).action((options: ParsedOptions) => {
+  try {
+    const profile = resolveProfile(options);
+    const plan = makePlan(profile, {
+      goal: options.goal as PlanGoal | undefined,
+      weeks: options.weeks as number | undefined,
+      daysPerWeek: options.days as number | undefined,
+      startDate: (options.start as string | undefined) ?? today(),
+    });
+
+    const outDir = options.outDir as string | undefined;
+    const format = (options.out as OutputFormat | undefined) ?? 'text';
+    if (outDir) {
+      mkdirSync(resolve(outDir), { recursive: true });
+    }
+    for (const session of plan.sessions) {
+      if (outDir) {
+        const slug = session.workout.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+        emitWorkout(
+          profile,
+          session.workout,
+          format,
+          join(outDir, `${session.date}-${slug}.${FILE_EXTENSIONS[format]}`),
+        );
+      }
+      reportDiagnostics(profile, session.workout, Boolean(options.strict));
+    }
+    console.log(formatPlanSummary(plan));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exitCode = 1;
+  }
+});
+
+const calendarCommand = program
+  .command('calendar')
+  .summary('Export a training plan as an iCalendar (.ics) file')
+  .option('--days <list>', 'Training weekdays (default mon,wed,fri)', parseWeekdayOption)
+  .addOption(new Option('--goal <goal>', 'Training goal').choices(['general', 'speed', 'endurance']).default('general'))
+  .option('--weeks <count>', 'Number of weeks (default 8)', parseInteger('weeks'))
+  .option('--start <date>', 'First day of the plan as YYYY-MM-DD (default today)')
+  .option('--time <HH:MM>', 'Local start time of each session', '07:00')
+  .option('--alarm <minutes>', 'Add a reminder this many minutes before each session', parseInteger('alarm'))
+  .option('--file <path>', 'Write the calendar to a file instead of stdout');
+
+withProfileOptions(calendarCommand).action((options: ParsedOptions) => {
+  try {
+    const profile = resolveProfile(options);
+    const plan = makePlan(profile, {
+      goal: options.goal as PlanGoal | undefined,
+      weeks: options.weeks as number | undefined,
+      weekdays: (options.days as Weekday[] | undefined) ?? ['mon', 'wed', 'fri'],
+      startDate: (options.start as string | undefined) ?? today(),
+    });
+    const ics = encodeIcsCalendar(plan.sessions, {
+      calendarName: `PaceForge ${profile.name}`,
+      startTime: options.time as string,
+      alarmMinutes: options.alarm as number | undefined,
+    });
+
+    const file = options.file as string | undefined;
+    if (file) {
+      writeFileSync(resolve(file), ics);
+    } else {
+      process.stdout.write(ics);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exitCode = 1;
+  }
+});
+
+const nextCommand = program
+  .command('next')
+  .summary('Propose the next workout from the feedback in a session history file')
+  .argument('[mode]', 'intervals | steady | progression (default: the kind of the last session)')
+  .option('--history <path>', 'Session history JSON file', 'paceforge-history.json');
+
+withOutputOptions(withProfileOptions(nextCommand)).action((mode: string | undefined, options: ParsedOptions) => {
+  try {
+    if (mode !== undefined && !SESSION_KINDS.includes(mode as AdaptiveSession['kind'])) {
+      throw new Error(`Unknown mode: ${mode}`);
+    }
+    const profile = resolveProfile(options);
+    const historyPath = options.history as string;
+    const history = loadHistory(historyPath);
+    const proposal = proposeNextSession(profile, history, mode as AdaptiveSession['kind'] | undefined);
+    const session = { kind: proposal.kind, opts: proposal.opts } as AdaptiveSession;
+    const workout = makeSessionWorkout(profile, session);
+    const name = options.name as string | undefined;
+
+    emitWorkout(
+      profile,
+      name ? { ...workout, name } : workout,
+      (options.out as OutputFormat | undefined) ?? 'text',
+      options.file as string | undefined,
+    );
+    reportDiagnostics(profile, workout, Boolean(options.strict));
+    console.error(`Next: ${proposal.reason}`);
+    saveHistory(historyPath, [...history, { ...session, date: today(), segmentCount: workout.segments.length }]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exitCode = 1;
+  }
+});
+
+program
+  .command('feedback')
+  .summary('Record how the last proposed workout went')
+  .requiredOption(
+    '--rpe <rating>',
+    'Rating of perceived exertion from 1 (very easy) to 10 (maximal)',
+    parseNumber('rpe'),
+  )
+  .option(
+    '--stopped-at <segment>',
+    'Segment number (from 1) you stopped in, if you ended early',
+    parseInteger('stopped-at'),
+  )
+  .option('--history <path>', 'Session history JSON file', 'paceforge-history.json')
+  .action((options: ParsedOptions) => {
+    try {
+      const historyPath = options.history as string;
+      const stoppedAt = options.stoppedAt as number | undefined;
+      const history = recordFeedback(loadHistory(historyPath), {
+        rpe: options.rpe as number,
+        completed: stoppedAt === undefined,
+        segmentIndex: stoppedAt !== undefined ? Math.max(0, stoppedAt - 1) : undefined,
+      });
+      saveHistory(historyPath, history);
+      console.log(
+        `Recorded RPE ${options.rpe as number}${stoppedAt !== undefined ? `, stopped in segment ${stoppedAt}` : ''}.`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+    }
+  });
+
+const retargetCommand = program
+  .command('retarget')
+  .summary('Move a JSON workout from one device profile to another')
+  .argument('<workout>', 'Workout JSON file (from --out json)')
+  .requiredOption('--from <path>', 'Device profile JSON file the workout was built for')
+  .requiredOption('--to <path>', 'Device profile JSON file to retarget the workout to');
+
+withOutputOptions(retargetCommand).action((file: string, options: ParsedOptions) => {
+  try {
+    const fromProfile = resolveProfile({ profileFile: options.from });
+    const toProfile = resolveProfile({ profileFile: options.to });
+    const workout = retarget(loadWorkoutFromFile(file), fromProfile, toProfile);
+    const name = options.name as string | undefined;
+
+    emitWorkout(
+      toProfile,
+      name ? { ...workout, name } : workout,
+      (options.out as OutputFormat | undefined) ?? 'text',
+      options.file as string | undefined,
+    );
+    reportDiagnostics(toProfile, workout, Boolean(options.strict));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exitCode = 1;
+  }
+});
+
+function loadWorkoutFromFile(path: string): Workout {
+  try {
+    const workout = workoutFileSchema.parse(JSON.parse(readFileSync(resolve(path), 'utf8')));
+    return { ...workout, totalSecs: workout.segments.reduce((sum, segment) => sum + segment.secs, 0) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const details = error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+      throw new Error(`Workout validation failed: ${details}`);
+    }
+    throw new Error(`Failed to read workout file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+const templatesCommand = program.command('templates').summary('List, inspect, and generate named workout templates');
+
+templatesCommand
+  .command('list')
+  .summary('List the built-in and user templates')
+  .option('--templates <path>', 'User templates JSON file', 'paceforge-templates.json')
+  .action((options: ParsedOptions) => {
+    try {
+      const templates = loadTemplates(options.templates as string);
+      const width = Math.max(...templates.map((template) => template.id.length));
+      for (const template of templates) {
+        const description = template.description ? `: ${template.description}` : '';
+        console.log(`${template.id.padEnd(width)}  ${template.name}${description}`);
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -147,6 +798,105 @@ program
     }
   });
 
+templatesCommand
+  .command('show')
+  .summary('Show a template, its parameters, and its workout notation')
+  .argument('<id>', 'Template id')
+  .option('--set <key=value>', 'Override a template parameter (repeatable)', parseTemplateParam)
+  .option('--templates <path>', 'User templates JSON file', 'paceforge-templates.json')
+  .action((id: string, options: ParsedOptions) => {
+    try {
+      const template = findTemplate(loadTemplates(options.templates as string), id);
+      const overrides = (options.set as Record<string, number> | undefined) ?? {};
+      const spec = resolveTemplateSpec(template, overrides);
+      const lines = [`${template.name} (${template.id})`];
+      if (template.description) {
+        lines.push(template.description);
+      }
+      lines.push('', 'Parameters:');
+      for (const [key, value] of Object.entries(template.params)) {
+        lines.push(`  ${key} = ${overrides[key] ?? value}${key in overrides ? ` (default ${value})` : ''}`);
+      }
+      lines.push('', `Spec: ${spec}`);
+      console.log(lines.join('\n'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+    }
+  });
+
+const templateGenerateCommand = templatesCommand
+  .command('generate')
+  .summary('Generate a workout from a template for a device profile')
+  .argument('<id>', 'Template id')
+  .option('--set <key=value>', 'Override a template parameter (repeatable)', parseTemplateParam)
+  .option('--templates <path>', 'User templates JSON file', 'paceforge-templates.json');
+
+withOutputOptions(withProfileOptions(templateGenerateCommand)).action((id: string, options: ParsedOptions) => {
+  try {
+    const profile = resolveProfile(options);
+    const template = findTemplate(loadTemplates(options.templates as string), id);
+    const workout = renderTemplate(profile, template, (options.set as Record<string, number> | undefined) ?? {});
+    const name = options.name as string | undefined;
+
+    emitWorkout(
+      profile,
+      name ? { ...workout, name } : workout,
+      (options.out as OutputFormat | undefined) ?? 'text',
+      options.file as string | undefined,
+    );
+    reportDiagnostics(profile, workout, Boolean(options.strict));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exitCode = 1;
+  }
+});
+
+// The user file is optional; its templates replace built-in ones with the same id.
+function loadTemplates(path: string): WorkoutTemplate[] {
+  if (!existsSync(resolve(path))) {
+    return mergeTemplates();
+  }
+  try {
+    return mergeTemplates(templateFileSchema.parse(JSON.parse(readFileSync(resolve(path), 'utf8'))));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const details = error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+      throw new Error(`Template validation failed: ${details}`);
+    }
+    throw new Error(`Failed to read templates file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function loadHistory(path: string): SessionRecord[] {
+  if (!existsSync(resolve(path))) {
+    return [];
+  }
+  try {
+    return sessionHistorySchema.parse(JSON.parse(readFileSync(resolve(path), 'utf8')));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const details = error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+      throw new Error(`History validation failed: ${details}`);
+    }
+    throw new Error(`Failed to read history file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function saveHistory(path: string, history: SessionRecord[]) {
+  writeFileSync(resolve(path), `${JSON.stringify(history, null, 2)}\n`);
+}
+
+const FILE_EXTENSIONS: Record<OutputFormat, string> = { text: 'txt', json: 'json', fit: 'fit', zwo: 'zwo' };
+
+function today(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
 function normalizeSpeeds(values: number[]): number[] {
   const sorted = [...values].sort((a, b) => a - b);
   return sorted.filter((value, index) => (index === 0 ? true : value !== sorted[index - 1]));
@@ -180,25 +930,78 @@ function resolveProfile(options: ParsedOptions): DeviceProfile {
   const units = (options.units as 'mph' | 'kph' | undefined) ?? fileProfile?.units ?? 'mph';
   const minSegmentSec = (options.minSegmentSec as number | undefined) ?? fileProfile?.minSegmentSec;
   const rampLimit = (options.rampLimit as number | undefined) ?? fileProfile?.rampLimitPerChange;
+  const rampPolicy = (options.rampPolicy as RampPolicy | undefined) ?? fileProfile?.rampPolicy;
+  const rampStepSecs = (options.rampStepSecs as number | undefined) ?? fileProfile?.rampStepSecs;
+  const inclines = (options.inclines as number[] | undefined) ?? fileProfile?.inclines;
+  const inclineRampLimit = (options.inclineRampLimit as number | undefined) ?? fileProfile?.inclineRampLimitPerChange;
+  const quantize = (options.quantize as QuantizeStrategy | undefined) ?? fileProfile?.quantize;
+  const intensityReference =
+    (options.intensityReference as IntensityReference | undefined) ?? fileProfile?.intensityReference;
+  const thresholdSpeed = (options.thresholdSpeed as number | undefined) ?? fileProfile?.thresholdSpeed;
+  const highSpeedThreshold = (options.highSpeedThreshold as number | undefined) ?? fileProfile?.highSpeedThreshold;
+  const maxHighSpeedSecs = (options.maxHighSpeedSecs as number | undefined) ?? fileProfile?.maxHighSpeedSecs;
+  const coolOffSecs = (options.coolOffSecs as number | undefined) ?? fileProfile?.coolOffSecs;
+  const maxSessionSecs = (options.maxSessionSecs as number | undefined) ?? fileProfile?.maxSessionSecs;
 
   const profile = {
     name: fileProfile?.name ?? 'CLI Profile',
     units,
     speeds: normalizeSpeeds(speeds),
-    inclines: fileProfile?.inclines,
+    inclines: inclines ? normalizeSpeeds(inclines) : undefined,
     minSegmentSec,
     rampLimitPerChange: rampLimit,
+    rampPolicy,
+    rampStepSecs,
+    inclineRampLimitPerChange: inclineRampLimit,
+    quantize,
+    intensityReference,
+    thresholdSpeed,
+    highSpeedThreshold,
+    maxHighSpeedSecs,
+    coolOffSecs,
+    maxSessionSecs,
+    user: fileProfile?.user,
   } satisfies DeviceProfileInput;
 
   deviceProfileSchema.parse(profile);
   return profile as DeviceProfile;
 }
 
-function emitWorkout(workout: Workout, format: 'text' | 'json') {
-  if (format === 'json') {
-    console.log(JSON.stringify(workout, null, 2));
+function reportDiagnostics(profile: DeviceProfile, workout: Workout, strict: boolean) {
+  const diagnostics = analyzeWorkout(profile, workout);
+  for (const diagnostic of diagnostics) {
+    const prefix = diagnostic.severity === 'warning' ? 'Warning' : 'Note';
+    console.error(`${prefix}: ${diagnostic.message}`);
+  }
+  if (strict && diagnostics.some((diagnostic) => diagnostic.severity === 'warning')) {
+    process.exitCode = 1;
+  }
+}
+
+function emitWorkout(profile: DeviceProfile, workout: Workout, format: OutputFormat, file?: string) {
+  if (format === 'fit') {
+    if (!file) {
+      throw new Error('Provide --file with a path for fit output.');
+    }
+    writeFileSync(resolve(file), encodeFitWorkout(workout));
+    return;
+  }
+
+  if (format === 'zwo') {
+    const xml = encodeZwoWorkout(workout, { referenceSpeed: Math.max(...profile.speeds) });
+    if (file) {
+      writeFileSync(resolve(file), xml);
+    } else {
+      process.stdout.write(xml);
+    }
+    return;
+  }
+
+  const output = format === 'json' ? JSON.stringify(workout, null, 2) : describe(workout);
+  if (file) {
+    writeFileSync(resolve(file), `${output}\n`);
   } else {
-    console.log(describe(workout));
+    console.log(output);
   }
 }
 
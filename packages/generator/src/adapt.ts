@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import {
+  type DeviceProfile,
+  type IntervalPlanOpts,
+  type ProgressionOpts,
+  type SteadyOpts,
+  type Workout,
+  clamp,
+  intensitySpeed,
+  makeIntervals,
+  makeProgression,
+  makeSteady,
+  quantize,
+  sortSpeeds,
+  speedIntensity,
+} from './generator.js';
+import { type HrZone, isHrZone, zoneSpeed } from './zones.js';
+
+export type AdaptiveSession =
+  | { kind: 'intervals'; opts: IntervalPlanOpts }
+  | { kind: 'steady'; opts: SteadyOpts }
+  | { kind: 'progression'; opts: ProgressionOpts };
+
+export type SessionFeedback = {
+  /** Rating of perceived exertion, from 1 (very easy) to 10 (maximal). */
+  rpe: number;
+  completed: boolean;
+  /** Index of the segment that was running when the session was stopped early. */
+  segmentIndex?: number;
+};
+
+export type SessionRecord = AdaptiveSession & {
+  date: string;
+  segmentCount?: number;
+  feedback?: SessionFeedback;
+};
+
+const hrZoneSchema = z.custom<HrZone>((value) => typeof value === 'string' && isHrZone(value), 'Expected z1 to z5');
+
+const intervalOptsSchema = z
+  .object({
+    name: z.string().optional(),
+    warmupMins: z.number().min(0).optional(),
+    cooldownMins: z.number().min(0).optional(),
+    repeats: z.number().int().positive().optional(),
+    hardSecs: z.number().positive().optional(),
+    easySecs: z.number().min(0).optional(),
+    hardIntensity: z.number().positive().optional(),
+    easyIntensity: z.number().positive().optional(),
+    hardSpeed: z.number().positive().optional(),
+    easySpeed: z.number().positive().optional(),
+    hardZone: hrZoneSchema.optional(),
+    easyZone: hrZoneSchema.optional(),
+    hardDistance: z.number().positive().optional(),
+    easyDistance: z.number().positive().optional(),
+    distanceUnit: z.union([z.literal('m'), z.literal('km'), z.literal('mi')]).optional(),
+    sets: z.number().int().positive().optional(),
+    setRestSecs: z.number().min(0).optional(),
+    structure: z
+      .union([z.literal('even'), z.literal('pyramid'), z.literal('ascending'), z.literal('descending')])
+      .optional(),
+    repStepSecs: z.number().min(0).optional(),
+    repSecs: z.array(z.number().positive()).min(1).optional(),
+    hardIntensityStep: z.number().optional(),
+    recoveryRatio: z.number().min(0).optional(),
+    totalMins: z.number().positive().optional(),
+  })
+  .strict();
+
+const steadyOptsSchema = z
+  .object({
+    name: z.string().optional(),
+    totalMins: z.number().positive().optional(),
+    intensity: z.number().positive().optional(),
+    speed: z.number().positive().optional(),
+    zone: hrZoneSchema.optional(),
+    warmupMins: z.number().min(0).optional(),
+    cooldownMins: z.number().min(0).optional(),
+    warmupIntensity: z.number().positive().optional(),
+    cooldownIntensity: z.number().positive().optional(),
+    addStrides: z.boolean().optional(),
+    strides: z.number().int().min(0).optional(),
+    strideSecs: z.number().positive().optional(),
+    strideFloatSecs: z.number().min(0).optional(),
+    strideIntensity: z.number().positive().optional(),
+  })
+  .strict();
+
+const progressionOptsSchema = z
+  .object({
+    name: z.string().optional(),
+    totalMins: z.number().positive().optional(),
+    steps: z.number().int().positive().optional(),
+    topIntensity: z.number().positive().optional(),
+    topSpeed: z.number().positive().optional(),
+    topZone: hrZoneSchema.optional(),
+    warmupMins: z.number().min(0).optional(),
+    cooldownMins: z.number().min(0).optional(),
+    warmupIntensity: z.number().positive().optional(),
+    cooldownIntensity: z.number().positive().optional(),
+    shape: z
+      .union([z.literal('ascending'), z.literal('descending'), z.literal('pyramid'), z.literal('hold')])
+      .optional(),
+    holdMins: z.number().min(0).optional(),
+    weighting: z.union([z.literal('even'), z.literal('top')]).optional(),
+  })
+  .strict();
+
+const sessionRecordFields = {
+  date: z.string(),
+  segmentCount: z.number().int().nonnegative().optional(),
+  feedback: z
+    .object({
+      rpe: z.number().min(1).max(10),
+      completed: z.boolean(),
+      segmentIndex: z.number().int().nonnegative().optional(),
+    })
+    .optional(),
+};
+
+/** Validates one stored session, checking its opts against the fields its kind accepts. */
+export const sessionRecordSchema: z.ZodType<SessionRecord> = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('intervals'), opts: intervalOptsSchema, ...sessionRecordFields }),
+  z.object({ kind: z.literal('steady'), opts: steadyOptsSchema, ...sessionRecordFields }),
+  z.object({ kind: z.literal('progression'), opts: progressionOptsSchema, ...sessionRecordFields }),
+]);
+
+export const sessionHistorySchema = z.array(sessionRecordSchema);
+
+export type AdaptiveAction = 'start' | 'progress' | 'extend' | 'hold' | 'back-off';
+
+export type AdaptiveProposal = AdaptiveSession & {
+  action: AdaptiveAction;
+  reason: string;
+};
+
+const KIND_NAMES: Record<AdaptiveSession['kind'], string> = {
+  intervals: 'interval',
+  steady: 'steady',
+  progression: 'progression',
+};
+
+// The speed the session's main effort targets: the hard reps, the cruise, or the top step.
+function workTarget(profile: DeviceProfile, session: AdaptiveSession): number {
+  switch (session.kind) {
+    case 'intervals': {
+      const { hardSpeed, hardZone, hardIntensity = 0.85 } = session.opts;
+      return hardSpeed ?? (hardZone ? zoneSpeed(profile.user, hardZone) : intensitySpeed(profile, hardIntensity));
+    }
+    case 'steady': {
+      const { speed, zone, intensity = 0.65 } = session.opts;
+      return speed ?? (zone ? zoneSpeed(profile.user, zone) : intensitySpeed(profile, intensity));
+    }
+    default: {
+      const { topSpeed, topZone, topIntensity = 0.8 } = session.opts;
+      return topSpeed ?? (topZone ? zoneSpeed(profile.user, topZone) : intensitySpeed(profile, topIntensity));
+    }
+  }
+}
+
+/**
+ * Moves the main effort to `speed`. Sessions planned by absolute speed or zone get an absolute
+ * speed; sessions planned by intensity keep using a fraction, chosen so it lands on `speed` exactly.
+ */
+function withWorkSpeed(profile: DeviceProfile, session: AdaptiveSession, speed: number): AdaptiveSession {
+  const fraction = Math.round(speedIntensity(profile, speed) * 10000) / 10000;
+  switch (session.kind) {
+    case 'intervals': {
+      const { opts } = session;
+      const absolute = opts.hardSpeed !== undefined || opts.hardZone !== undefined;
+      return {
+        kind: 'intervals',
+        opts: absolute ? { ...opts, hardSpeed: speed, hardZone: undefined } : { ...opts, hardIntensity: fraction },
+      };
+    }
+    case 'steady': {
+      const { opts } = session;
+      const absolute = opts.speed !== undefined || opts.zone !== undefined;
+      return {
+        kind: 'steady',
+        opts: absolute ? { ...opts, speed, zone: undefined } : { ...opts, intensity: fraction },
+      };
+    }
+    default: {
+      const { opts } = session;
+      const absolute = opts.topSpeed !== undefined || opts.topZone !== undefined;
+      return {
+        kind: 'progression',
+        opts: absolute ? { ...opts, topSpeed: speed, topZone: undefined } : { ...opts, topIntensity: fraction },
+      };
+    }
+  }
+}
+
+// Volume moves by one interval repeat or five minutes, never below two repeats or ten minutes.
+function withVolume(session: AdaptiveSession, direction: 1 | -1): AdaptiveSession {
+  if (session.kind === 'intervals') {
+    return {
+      kind: 'intervals',
+      opts: { ...session.opts, repeats: Math.max(2, (session.opts.repeats ?? 6) + direction) },
+    };
+  }
+  const totalMins = Math.max(10, (session.opts.totalMins ?? 30) + 5 * direction);
+  return session.kind === 'steady'
+    ? { kind: 'steady', opts: { ...session.opts, totalMins } }
+    : { kind: 'progression', opts: { ...session.opts, totalMins } };
+}
+
+function volumeChange(session: AdaptiveSession, direction: 1 | -1): string {
+  const verb = direction > 0 ? 'adding' : 'dropping';
+  return session.kind === 'intervals' ? `${verb} a repeat` : `${verb} five minutes`;
+}
+
+export function makeSessionWorkout(profile: DeviceProfile, session: AdaptiveSession): Workout {
+  switch (session.kind) {
+    case 'intervals':
+      return makeIntervals(profile, session.opts);
+    case 'steady':
+      return makeSteady(profile, session.opts);
+    default:
+      return makeProgression(profile, session.opts);
+  }
+}
+
+/**
+ * Attaches feedback to the most recent session that has none yet. Returns a new history array.
+ */
+export function recordFeedback(history: SessionRecord[], feedback: SessionFeedback): SessionRecord[] {
+  if (!(Number.isFinite(feedback.rpe) && feedback.rpe >= 1 && feedback.rpe <= 10)) {
+    throw new Error(`RPE must be between 1 and 10, received ${feedback.rpe}.`);
+  }
+  const index = history.map((record) => record.feedback === undefined).lastIndexOf(true);
+  if (index < 0) {
+    throw new Error('No session is waiting for feedback.');
+  }
+  return history.map((record, position) => (position === index ? { ...record, feedback } : record));
+}
+
+/**
+ * Proposes the next session of a kind from the latest feedback for that kind:
+ *
+ * - stopped early or RPE 9–10: back off one allowed speed (and a repeat or five minutes when the
+ *   session ended before halfway or the speed is already the slowest);
+ * - RPE 8: repeat the session unchanged;
+ * - RPE 6–7: add a repeat or five minutes;
+ * - RPE 5 or less: raise the work speed one allowed step, or add volume at the top speed.
+ *
+ * Speeds always stay on the profile's speed list.
+ */
+export function proposeNextSession(
+  profile: DeviceProfile,
+  history: SessionRecord[],
+  kind?: AdaptiveSession['kind'],
+): AdaptiveProposal {
+  const resolvedKind = kind ?? history[history.length - 1]?.kind;
+  if (!resolvedKind) {
+    throw new Error('No session history yet; choose intervals, steady, or progression.');
+  }
+  const last = [...history].reverse().find((record) => record.kind === resolvedKind && record.feedback);
+  if (!last?.feedback) {
+    const session: AdaptiveSession = { kind: resolvedKind, opts: {} } as AdaptiveSession;
+    return {
+      ...session,
+      action: 'start',
+      reason: `No ${KIND_NAMES[resolvedKind]} feedback yet, so starting from the defaults.`,
+    };
+  }
+
+  const { feedback } = last;
+  const session: AdaptiveSession = { kind: last.kind, opts: last.opts } as AdaptiveSession;
+  const speeds = sortSpeeds(profile.speeds);
+  const current = quantize(
+    speeds,
+    clamp(workTarget(profile, session), speeds[0], speeds[speeds.length - 1]),
+    profile.quantize,
+  );
+  const index = speeds.indexOf(current);
+  const lower = index > 0 ? speeds[index - 1] : undefined;
+  const higher = index < speeds.length - 1 ? speeds[index + 1] : undefined;
+  const units = profile.units;
+
+  if (!feedback.completed || feedback.rpe >= 9) {
+    const count = last.segmentCount;
+    const reached = feedback.segmentIndex;
+    const early = !feedback.completed && count !== undefined && reached !== undefined && reached < count / 2;
+    const why = feedback.completed
+      ? `RPE ${feedback.rpe}`
+      : reached !== undefined && count !== undefined
+        ? `stopping at segment ${reached + 1} of ${count}`
+        : 'stopping early';
+    let next = lower !== undefined ? withWorkSpeed(profile, session, lower) : session;
+    const changes = lower !== undefined ? [`easing the work speed to ${lower} ${units}`] : [];
+    if (early || lower === undefined) {
+      next = withVolume(next, -1);
+      changes.push(volumeChange(session, -1));
+    }
+    return { ...next, action: 'back-off', reason: `After ${why}: ${changes.join(' and ')}.` };
+  }
+
+  if (feedback.rpe >= 8) {
+    return { ...session, action: 'hold', reason: `RPE ${feedback.rpe}: repeating the session to consolidate.` };
+  }
+
+  if (feedback.rpe >= 6 || higher === undefined) {
+    const atTop = feedback.rpe < 6 ? ` at the top speed of ${current} ${units}` : '';
+    return {
+      ...withVolume(session, 1),
+      action: 'extend',
+      reason: `RPE ${feedback.rpe}: ${volumeChange(session, 1)}${atTop}.`,
+    };
+  }
+
+  return {
+    ...withWorkSpeed(profile, session, higher),
+    action: 'progress',
+    reason: `RPE ${feedback.rpe}: raising the work speed to ${higher} ${units}.`,
+  };
+}
@@ -0,0 +1,130 @@
+import { type DeviceProfile, type Segment, type Workout, isCoolOff, sortSpeeds } from './generator.js';
+import { metresPerSecond } from './metrics.js';
+
+export type DiagnosticCode =
+  | 'ramp-clamped'
+  | 'segment-merged'
+  | 'duty-cycle-cool-off'
+  | 'session-capped'
+  | 'below-min-speed'
+  | 'intensity-above-max'
+  | 'duration-drift'
+  | 'distance-drift';
+
+export type DiagnosticSeverity = 'warning' | 'info';
+
+export type WorkoutDiagnostic = {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  segmentIndex?: number;
+};
+
+function segmentName(segment: Segment, index: number): string {
+  const label = segment.label ?? segment.phase;
+  if (!label) {
+    return `Segment ${index + 1}`;
+  }
+  const counter = segment.repeat ? ` ${segment.repeat.index}/${segment.repeat.count}` : '';
+  return `Segment ${index + 1} (${label}${counter})`;
+}
+
+/**
+ * Explains what the quantization and safety passes did to a generated workout: clamped ramps,
+ * merged slices, duty-cycle cool-offs and session caps, targets outside the device's speed range,
+ * duration lost or gained to rounding, and distance goals the final timeline no longer covers.
+ */
+export function analyzeWorkout(profile: DeviceProfile, workout: Workout): WorkoutDiagnostic[] {
+  const speeds = sortSpeeds(profile.speeds);
+  const min = speeds[0];
+  const max = speeds[speeds.length - 1];
+  const units = workout.units;
+  const diagnostics: WorkoutDiagnostic[] = [];
+
+  workout.segments.forEach((segment, index) => {
+    const name = segmentName(segment, index);
+
+    if (segment.safety?.clamped) {
+      const target = segment.targetSpeed !== undefined ? ` (target ${segment.targetSpeed} ${units})` : '';
+      diagnostics.push({
+        code: 'ramp-clamped',
+        severity: 'warning',
+        message: `${name} was clamped to ${segment.speed} ${units} by the ramp limit${target}.`,
+        segmentIndex: index,
+      });
+    }
+
+    if (segment.safety?.merged) {
+      diagnostics.push({
+        code: 'segment-merged',
+        severity: 'info',
+        message: `${name} absorbs neighbouring segments shorter than ${profile.minSegmentSec}s.`,
+        segmentIndex: index,
+      });
+    }
+
+    if (isCoolOff(segment)) {
+      diagnostics.push({
+        code: 'duty-cycle-cool-off',
+        severity: 'warning',
+        message: `${name} was inserted to rest the motor after ${profile.maxHighSpeedSecs}s at or above ${profile.highSpeedThreshold} ${units}.`,
+        segmentIndex: index,
+      });
+    }
+
+    if (segment.targetSpeed !== undefined && segment.targetSpeed < min) {
+      diagnostics.push({
+        code: 'below-min-speed',
+        severity: 'warning',
+        message: `${name} targets ${segment.targetSpeed} ${units}, below the slowest allowed speed of ${min} ${units}.`,
+        segmentIndex: index,
+      });
+    }
+
+    if (segment.targetSpeed !== undefined && segment.targetSpeed > max) {
+      diagnostics.push({
+        code: 'intensity-above-max',
+        severity: 'warning',
+        message: `${name} targets ${segment.targetSpeed} ${units}, above the fastest allowed speed of ${max} ${units}.`,
+        segmentIndex: index,
+      });
+    }
+  });
+
+  if (workout.cappedFromSecs !== undefined) {
+    diagnostics.push({
+      code: 'session-capped',
+      severity: 'warning',
+      message: `Workout was compressed from ${workout.cappedFromSecs}s to ${workout.totalSecs}s to stay within the device's ${profile.maxSessionSecs}s session limit.`,
+    });
+  }
+
+  if (workout.plannedSecs !== undefined) {
+    const drift = Math.round(workout.totalSecs - workout.plannedSecs);
+    if (drift !== 0) {
+      diagnostics.push({
+        code: 'duration-drift',
+        severity: 'warning',
+        message: `Total duration is ${workout.totalSecs}s, ${Math.abs(drift)}s ${drift > 0 ? 'longer' : 'shorter'} than the requested ${workout.plannedSecs}s after rounding.`,
+      });
+    }
+  }
+
+  if (workout.goalMetres !== undefined) {
+    const covered = workout.segments.reduce(
+      (sum, segment) => sum + metresPerSecond(segment.speed, units) * segment.secs,
+      0,
+    );
+    const drift = Math.round(covered - workout.goalMetres);
+    // Rounding alone keeps a distance plan well inside 1% of its goal.
+    if (Math.abs(drift) > workout.goalMetres / 100) {
+      diagnostics.push({
+        code: 'distance-drift',
+        severity: 'warning',
+        message: `Workout covers ${Math.round(covered)} m, ${Math.abs(drift)} m ${drift > 0 ? 'more' : 'less'} than the ${Math.round(workout.goalMetres)} m goal, because the safety pass changed the planned speeds.`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,407 @@
+import {
+  type Segment,
+  type SegmentPhase,
+  type Units,
+  type Workout,
+  type WorkoutBlock,
+  renderCue,
+} from '../generator.js';
+import { intactBlocks } from './structure.js';
+
+export type FitEncodeOpts = {
+  timeCreated?: Date;
+};
+
+export type FitDurationType = 'time' | 'repeat';
+
+export type FitIntensity = 'active' | 'rest' | 'warmup' | 'cooldown' | 'recovery';
+
+export type FitWorkoutStep = {
+  messageIndex: number;
+  name?: string;
+  durationType: FitDurationType;
+  /** Milliseconds for time steps; the message index to jump back to for repeat steps. */
+  durationValue: number;
+  /** Repetition count for repeat steps. */
+  repeatCount?: number;
+  /** Target speed in metres per second. */
+  speedLow?: number;
+  speedHigh?: number;
+  intensity?: FitIntensity;
+};
+
+export type FitWorkoutFile = {
+  timeCreated: Date;
+  name?: string;
+  numValidSteps: number;
+  steps: FitWorkoutStep[];
+};
+
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31, 0, 0, 0);
+const PROTOCOL_VERSION = 0x10;
+const PROFILE_VERSION = 2132;
+const STRING_SIZE = 48;
+
+const MESG_FILE_ID = 0;
+const MESG_WORKOUT = 26;
+const MESG_WORKOUT_STEP = 27;
+
+const BASE_ENUM = 0x00;
+const BASE_STRING = 0x07;
+const BASE_UINT16 = 0x84;
+const BASE_UINT32 = 0x86;
+
+const FILE_TYPE_WORKOUT = 5;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_RUNNING = 1;
+const SUB_SPORT_TREADMILL = 1;
+const DURATION_TIME = 0;
+const DURATION_REPEAT_UNTIL_STEPS_COMPLETE = 6;
+const TARGET_SPEED = 0;
+
+const INVALID: Record<number, number> = {
+  [BASE_ENUM]: 0xff,
+  [BASE_UINT16]: 0xffff,
+  [BASE_UINT32]: 0xffffffff,
+};
+
+const INTENSITY_CODES: Record<FitIntensity, number> = {
+  active: 0,
+  rest: 1,
+  warmup: 2,
+  cooldown: 3,
+  recovery: 4,
+};
+
+const PHASE_INTENSITY: Record<SegmentPhase, FitIntensity> = {
+  warmup: 'warmup',
+  work: 'active',
+  recovery: 'recovery',
+  stride: 'active',
+  cooldown: 'cooldown',
+  step: 'active',
+  ramp: 'active',
+};
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01,
+  0x8801, 0x4400,
+];
+
+type FieldDef = {
+  num: number;
+  size: number;
+  baseType: number;
+};
+
+type FieldValue = number | string | undefined;
+
+const FILE_ID_FIELDS: FieldDef[] = [
+  { num: 0, size: 1, baseType: BASE_ENUM },
+  { num: 1, size: 2, baseType: BASE_UINT16 },
+  { num: 2, size: 2, baseType: BASE_UINT16 },
+  { num: 4, size: 4, baseType: BASE_UINT32 },
+];
+
+const WORKOUT_FIELDS: FieldDef[] = [
+  { num: 4, size: 1, baseType: BASE_ENUM },
+  { num: 11, size: 1, baseType: BASE_ENUM },
+  { num: 6, size: 2, baseType: BASE_UINT16 },
+  { num: 8, size: STRING_SIZE, baseType: BASE_STRING },
+];
+
+const WORKOUT_STEP_FIELDS: FieldDef[] = [
+  { num: 254, size: 2, baseType: BASE_UINT16 },
+  { num: 0, size: STRING_SIZE, baseType: BASE_STRING },
+  { num: 1, size: 1, baseType: BASE_ENUM },
+  { num: 2, size: 4, baseType: BASE_UINT32 },
+  { num: 3, size: 1, baseType: BASE_ENUM },
+  { num: 4, size: 4, baseType: BASE_UINT32 },
+  { num: 5, size: 4, baseType: BASE_UINT32 },
+  { num: 6, size: 4, baseType: BASE_UINT32 },
+  { num: 7, size: 1, baseType: BASE_ENUM },
+];
+
+function fitCrc(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+function encodeString(value: string, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  const encoded = new TextEncoder().encode(value);
+  let length = Math.min(encoded.length, size - 1);
+  // Never cut a multi-byte UTF-8 sequence in half.
+  while (length > 0 && length < encoded.length && (encoded[length] & 0xc0) === 0x80) {
+    length -= 1;
+  }
+  out.set(encoded.subarray(0, length));
+  return out;
+}
+
+class FitWriter {
+  private readonly chunks: number[] = [];
+
+  definition(local: number, global: number, fields: FieldDef[]) {
+    this.chunks.push(0x40 | local, 0, 0, global & 0xff, (global >> 8) & 0xff, fields.length);
+    for (const field of fields) {
+      this.chunks.push(field.num, field.size, field.baseType);
+    }
+  }
+
+  data(local: number, fields: FieldDef[], values: FieldValue[]) {
+    this.chunks.push(local & 0x0f);
+    fields.forEach((field, index) => {
+      const value = values[index];
+      if (field.baseType === BASE_STRING) {
+        this.chunks.push(...encodeString(typeof value === 'string' ? value : '', field.size));
+        return;
+      }
+      const numeric = typeof value === 'number' ? Math.round(value) : INVALID[field.baseType];
+      for (let byte = 0; byte < field.size; byte++) {
+        this.chunks.push(Math.floor(numeric / 2 ** (8 * byte)) & 0xff);
+      }
+    });
+  }
+
+  finish(): Uint8Array {
+    const dataSize = this.chunks.length;
+    const out = new Uint8Array(14 + dataSize + 2);
+    const view = new DataView(out.buffer);
+    view.setUint8(0, 14);
+    view.setUint8(1, PROTOCOL_VERSION);
+    view.setUint16(2, PROFILE_VERSION, true);
+    view.setUint32(4, dataSize, true);
+    out.set([0x2e, 0x46, 0x49, 0x54], 8);
+    view.setUint16(12, fitCrc(out, 0, 12), true);
+    out.set(this.chunks, 14);
+    view.setUint16(14 + dataSize, fitCrc(out, 0, 14 + dataSize), true);
+    return out;
+  }
+}
+
+function toMetresPerSecond(speed: number, units: Units): number {
+  return units === 'mph' ? speed * 0.44704 : speed / 3.6;
+}
+
+/**
+ * Encodes a workout as a FIT workout file. Repeat groups are written as FIT repeat steps when the
+ * safety pass left the planned block structure intact; otherwise the final segment timeline is
+ * written step by step so the file always matches what the app would run.
+ */
+export function encodeFitWorkout(workout: Workout, opts: FitEncodeOpts = {}): Uint8Array {
+  const steps: FitWorkoutStep[] = [];
+  const timeStep = (segment: Segment, name: string | undefined) => {
+    const speed = toMetresPerSecond(segment.speed, workout.units);
+    steps.push({
+      messageIndex: steps.length,
+      name,
+      durationType: 'time',
+      durationValue: segment.secs * 1000,
+      speedLow: speed,
+      speedHigh: speed,
+      intensity: segment.phase ? PHASE_INTENSITY[segment.phase] : 'active',
+    });
+  };
+
+  const emitBlocks = (blocks: WorkoutBlock[]) => {
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'step':
+          timeStep(block.segment, renderCue({ ...block.segment, repeat: undefined }, workout.units));
+          break;
+        case 'repeat': {
+          const first = steps.length;
+          emitBlocks(block.blocks);
+          steps.push({
+            messageIndex: steps.length,
+            durationType: 'repeat',
+            durationValue: first,
+            repeatCount: block.count,
+          });
+          break;
+        }
+        case 'set':
+          // FIT cannot skip the set rest after the final set, so sets with rest are unrolled.
+          if (block.rest) {
+            for (let i = 0; i < block.count; i++) {
+              emitBlocks(block.blocks);
+              if (i < block.count - 1) {
+                timeStep(block.rest, renderCue({ ...block.rest, repeat: undefined }, workout.units));
+              }
+            }
+          } else {
+            emitBlocks([{ type: 'repeat', count: block.count, blocks: block.blocks }]);
+          }
+          break;
+      }
+    }
+  };
+
+  const blocks = intactBlocks(workout);
+  if (blocks) {
+    emitBlocks(blocks);
+  } else {
+    workout.segments.forEach((segment) => timeStep(segment, segment.cue));
+  }
+
+  const timeCreated = opts.timeCreated ?? new Date();
+  const writer = new FitWriter();
+  writer.definition(0, MESG_FILE_ID, FILE_ID_FIELDS);
+  writer.data(0, FILE_ID_FIELDS, [
+    FILE_TYPE_WORKOUT,
+    MANUFACTURER_DEVELOPMENT,
+    0,
+    Math.floor((timeCreated.getTime() - FIT_EPOCH_MS) / 1000),
+  ]);
+  writer.definition(1, MESG_WORKOUT, WORKOUT_FIELDS);
+  writer.data(1, WORKOUT_FIELDS, [SPORT_RUNNING, SUB_SPORT_TREADMILL, steps.length, workout.name]);
+  writer.definition(2, MESG_WORKOUT_STEP, WORKOUT_STEP_FIELDS);
+  for (const step of steps) {
+    const isRepeat = step.durationType === 'repeat';
+    writer.data(2, WORKOUT_STEP_FIELDS, [
+      step.messageIndex,
+      step.name,
+      isRepeat ? DURATION_REPEAT_UNTIL_STEPS_COMPLETE : DURATION_TIME,
+      step.durationValue,
+      isRepeat ? undefined : TARGET_SPEED,
+      isRepeat ? step.repeatCount : 0,
+      step.speedLow !== undefined ? step.speedLow * 1000 : undefined,
+      step.speedHigh !== undefined ? step.speedHigh * 1000 : undefined,
+      step.intensity ? INTENSITY_CODES[step.intensity] : undefined,
+    ]);
+  }
+  return writer.finish();
+}
+
+type Definition = {
+  global: number;
+  littleEndian: boolean;
+  fields: FieldDef[];
+};
+
+function readField(view: DataView, offset: number, field: FieldDef, littleEndian: boolean): FieldValue {
+  if (field.baseType === BASE_STRING) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+    const end = bytes.indexOf(0);
+    const text = new TextDecoder().decode(bytes.subarray(0, end === -1 ? bytes.length : end));
+    return text.length ? text : undefined;
+  }
+  let value: number;
+  switch (field.size) {
+    case 1:
+      value = view.getUint8(offset);
+      break;
+    case 2:
+      value = view.getUint16(offset, littleEndian);
+      break;
+    case 4:
+      value = view.getUint32(offset, littleEndian);
+      break;
+    default:
+      return undefined;
+  }
+  return value === INVALID[field.baseType] ? undefined : value;
+}
+
+/**
+ * Decodes the workout messages of a FIT file. Only the subset written by `encodeFitWorkout` is
+ * interpreted; unknown messages and fields are skipped.
+ */
+export function decodeFitWorkout(bytes: Uint8Array): FitWorkoutFile {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(...bytes.subarray(8, 12));
+  if (signature !== '.FIT') {
+    throw new Error('Not a FIT file.');
+  }
+  if (bytes.length < headerSize + dataSize + 2) {
+    throw new Error('FIT file is truncated.');
+  }
+  if (fitCrc(bytes, 0, headerSize + dataSize) !== view.getUint16(headerSize + dataSize, true)) {
+    throw new Error('FIT file CRC mismatch.');
+  }
+
+  const definitions = new Map<number, Definition>();
+  const result: FitWorkoutFile = { timeCreated: new Date(FIT_EPOCH_MS), numValidSteps: 0, steps: [] };
+  let offset = headerSize;
+  const end = headerSize + dataSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset);
+    offset += 1;
+    if (header & 0x80) {
+      throw new Error('Compressed timestamp records are not supported.');
+    }
+    const local = header & 0x0f;
+
+    if (header & 0x40) {
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const global = view.getUint16(offset + 2, littleEndian);
+      const count = view.getUint8(offset + 4);
+      offset += 5;
+      const fields: FieldDef[] = [];
+      for (let i = 0; i < count; i++) {
+        fields.push({
+          num: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+      if (header & 0x20) {
+        const devCount = view.getUint8(offset);
+        offset += 1 + devCount * 3;
+      }
+      definitions.set(local, { global, littleEndian, fields });
+      continue;
+    }
+
+    const definition = definitions.get(local);
+    if (!definition) {
+      throw new Error(`FIT data record uses undefined local message ${local}.`);
+    }
+    const values = new Map<number, FieldValue>();
+    for (const field of definition.fields) {
+      values.set(field.num, readField(view, offset, field, definition.littleEndian));
+      offset += field.size;
+    }
+
+    if (definition.global === MESG_FILE_ID) {
+      const created = values.get(4);
+      if (typeof created === 'number') {
+        result.timeCreated = new Date(FIT_EPOCH_MS + created * 1000);
+      }
+    } else if (definition.global === MESG_WORKOUT) {
+      result.name = values.get(8) as string | undefined;
+      result.numValidSteps = (values.get(6) as number | undefined) ?? 0;
+    } else if (definition.global === MESG_WORKOUT_STEP) {
+      const isRepeat = values.get(1) === DURATION_REPEAT_UNTIL_STEPS_COMPLETE;
+      const low = values.get(5) as number | undefined;
+      const high = values.get(6) as number | undefined;
+      const intensity = values.get(7) as number | undefined;
+      result.steps.push({
+        messageIndex: (values.get(254) as number | undefined) ?? result.steps.length,
+        name: values.get(0) as string | undefined,
+        durationType: isRepeat ? 'repeat' : 'time',
+        durationValue: (values.get(2) as number | undefined) ?? 0,
+        repeatCount: isRepeat ? (values.get(4) as number | undefined) : undefined,
+        speedLow: low !== undefined ? low / 1000 : undefined,
+        speedHigh: high !== undefined ? high / 1000 : undefined,
+        intensity: (Object.keys(INTENSITY_CODES) as FitIntensity[]).find((key) => INTENSITY_CODES[key] === intensity),
+      });
+    }
+  }
+
+  return result;
+}
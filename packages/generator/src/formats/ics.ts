@@ -0,0 +1,103 @@
+import { type Workout, describe } from '../generator.js';
+
+export type CalendarEntry = {
+  /** Calendar date, `YYYY-MM-DD`. */
+  date: string;
+  workout: Workout;
+};
+
+export type IcsEncodeOpts = {
+  calendarName?: string;
+  /** Local start time of each event, `HH:MM`. Defaults to 07:00. */
+  startTime?: string;
+  /** Minutes before each event to show a reminder. No alarm is added when omitted. */
+  alarmMinutes?: number;
+  /** Creation timestamp written as `DTSTAMP`. Defaults to now. */
+  timestamp?: Date;
+};
+
+const encoder = new TextEncoder();
+
+// RFC 5545 TEXT escaping: backslashes, separators, and newlines.
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets, never inside a multi-byte character.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length ? 74 : 75;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function compactDate(date: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid date "${date}" (expected YYYY-MM-DD).`);
+  }
+  return date.replace(/-/g, '');
+}
+
+function compactTime(time: string): string {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time "${time}" (expected HH:MM).`);
+  }
+  return `${match[1].padStart(2, '0')}${match[2]}00`;
+}
+
+function stamp(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+/**
+ * Serializes dated workouts as an iCalendar file. Each event is named after its workout, lasts its
+ * `totalSecs`, and carries the `describe()` timeline as its description. Start times are floating
+ * local times, so events land at the same clock time in any time zone.
+ */
+export function encodeIcsCalendar(entries: CalendarEntry[], opts: IcsEncodeOpts = {}): string {
+  const time = compactTime(opts.startTime ?? '07:00');
+  const created = stamp(opts.timestamp ?? new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//PaceForge//Workout Plan//EN', 'CALSCALE:GREGORIAN'];
+  if (opts.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(opts.calendarName)}`);
+  }
+
+  entries.forEach((entry, index) => {
+    const date = compactDate(entry.date);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${date}-${index + 1}@paceforge`,
+      `DTSTAMP:${created}`,
+      `DTSTART:${date}T${time}`,
+      `DURATION:PT${Math.max(0, Math.round(entry.workout.totalSecs))}S`,
+      `SUMMARY:${escapeText(entry.workout.name)}`,
+      `DESCRIPTION:${escapeText(describe(entry.workout))}`,
+    );
+    if (opts.alarmMinutes !== undefined) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:-PT${Math.max(0, Math.round(opts.alarmMinutes))}M`,
+        `DESCRIPTION:${escapeText(entry.workout.name)}`,
+        'END:VALARM',
+      );
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(fold).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,291 @@
+import {
+  type DeviceProfile,
+  type Segment,
+  type SegmentPhase,
+  type Units,
+  type Workout,
+  type WorkoutBlock,
+  clamp,
+  finalizeWorkout,
+  flatten,
+  planSpeed,
+  sortSpeeds,
+  step,
+} from '../generator.js';
+import { paceToSpeed, paceUnitFor, parsePace } from '../pace.js';
+import { type XmlElement, attribute, childElement, childElements, localName, parseXml } from './xml.js';
+
+export type ImportFormat = 'zwo' | 'tcx' | 'csv';
+
+export type ImportWorkoutOpts = {
+  format: ImportFormat;
+  name?: string;
+  /** Speed that `.zwo` power 1.0 maps to. Defaults to the profile's top speed, matching `encodeZwoWorkout`. */
+  referenceSpeed?: number;
+};
+
+type ImportedWorkout = {
+  name?: string;
+  /** Steps carry the requested speed (in profile units) before quantization. */
+  blocks: WorkoutBlock[];
+};
+
+type ImportContext = {
+  units: Units;
+  min: number;
+  max: number;
+  referenceSpeed: number;
+  minSegmentSec: number;
+};
+
+const IMPORT_FORMATS: ImportFormat[] = ['zwo', 'tcx', 'csv'];
+
+export function detectImportFormat(path: string): ImportFormat | undefined {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return IMPORT_FORMATS.find((format) => format === extension);
+}
+
+function fromMetresPerSecond(value: number, units: Units): number {
+  return units === 'mph' ? value / 0.44704 : value * 3.6;
+}
+
+function positiveNumber(value: string | undefined, what: string): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${what} must be a positive number (got ${value ?? 'nothing'}).`);
+  }
+  return parsed;
+}
+
+function wholeSecs(secs: number): number {
+  return Math.max(1, Math.round(secs));
+}
+
+function constant(secs: number, speed: number, phase?: SegmentPhase, label?: string): WorkoutBlock {
+  return step({ secs: wholeSecs(secs), speed, phase, label });
+}
+
+// Discrete-speed devices cannot ramp smoothly, so ramps become a staircase of steps that are
+// at least a minute long; quantization and merging then collapse steps that land on one speed.
+function staircase(secs: number, from: number, to: number, ctx: ImportContext, phase?: SegmentPhase): WorkoutBlock[] {
+  const total = wholeSecs(secs);
+  if (from === to) {
+    return [constant(total, from, phase)];
+  }
+  const count = Math.max(1, Math.floor(total / Math.max(60, ctx.minSegmentSec)));
+  const base = Math.floor(total / count);
+  return Array.from({ length: count }, (_, index) => {
+    const share = index === count - 1 ? total - base * (count - 1) : base;
+    return constant(share, from + ((to - from) * (index + 0.5)) / count, phase);
+  });
+}
+
+function readZwo(source: string, ctx: ImportContext): ImportedWorkout {
+  const root = parseXml(source);
+  const workout = childElement(root, 'workout');
+  if (localName(root.name) !== 'workout_file' || !workout) {
+    throw new Error('.zwo file must contain <workout_file> with a <workout> element.');
+  }
+  const power = (element: XmlElement, name: string) =>
+    positiveNumber(attribute(element, name), `.zwo <${element.name}> ${name}`) * ctx.referenceSpeed;
+  const duration = (element: XmlElement, name = 'Duration') =>
+    positiveNumber(attribute(element, name), `.zwo <${element.name}> ${name}`);
+
+  const blocks = workout.children.flatMap((element): WorkoutBlock[] => {
+    switch (element.name) {
+      case 'SteadyState':
+        return [constant(duration(element), power(element, 'Power'))];
+      case 'Warmup':
+      case 'Cooldown':
+      case 'Ramp': {
+        const phase = element.name === 'Warmup' ? 'warmup' : element.name === 'Cooldown' ? 'cooldown' : undefined;
+        return staircase(duration(element), power(element, 'PowerLow'), power(element, 'PowerHigh'), ctx, phase);
+      }
+      case 'IntervalsT': {
+        const count = Math.round(positiveNumber(attribute(element, 'Repeat'), '.zwo <IntervalsT> Repeat'));
+        return [
+          {
+            type: 'repeat',
+            count,
+            blocks: [
+              constant(duration(element, 'OnDuration'), power(element, 'OnPower'), 'work'),
+              constant(duration(element, 'OffDuration'), power(element, 'OffPower'), 'recovery'),
+            ],
+          },
+        ];
+      }
+      case 'FreeRide':
+        return [constant(duration(element), ctx.min, 'recovery', 'Free run')];
+      case 'MaxEffort':
+        return [constant(duration(element), ctx.max, 'work', 'Max effort')];
+      default:
+        throw new Error(`.zwo element <${element.name}> is not supported.`);
+    }
+  });
+
+  return { name: childElement(root, 'name')?.text.trim() || undefined, blocks };
+}
+
+function readTcxTarget(element: XmlElement, ctx: ImportContext): number {
+  const target = childElement(element, 'Target');
+  const targetType = target ? attribute(target, 'type') : undefined;
+  if (!target || targetType === 'None_t') {
+    return ctx.min;
+  }
+  const zone = childElement(target, 'SpeedZone');
+  if (targetType !== 'Speed_t' || !zone || attribute(zone, 'type') !== 'CustomSpeedZone_t') {
+    throw new Error(`TCX step target ${targetType ?? 'unknown'} is not supported (use a custom speed zone).`);
+  }
+  const low = positiveNumber(childElement(zone, 'LowInMetersPerSecond')?.text, 'TCX LowInMetersPerSecond');
+  const high = positiveNumber(childElement(zone, 'HighInMetersPerSecond')?.text, 'TCX HighInMetersPerSecond');
+  return fromMetresPerSecond((low + high) / 2, ctx.units);
+}
+
+function readTcxStep(element: XmlElement, ctx: ImportContext): WorkoutBlock {
+  const stepType = attribute(element, 'type');
+  if (stepType === 'Repeat_t') {
+    const count = Math.round(positiveNumber(childElement(element, 'Repetitions')?.text, 'TCX Repetitions'));
+    return { type: 'repeat', count, blocks: childElements(element, 'Child').map((child) => readTcxStep(child, ctx)) };
+  }
+
+  const speed = readTcxTarget(element, ctx);
+  const durationElement = childElement(element, 'Duration');
+  const durationType = durationElement ? attribute(durationElement, 'type') : undefined;
+  let secs: number;
+  if (durationElement && durationType === 'Time_t') {
+    secs = positiveNumber(childElement(durationElement, 'Seconds')?.text, 'TCX Seconds');
+  } else if (durationElement && durationType === 'Distance_t') {
+    const metres = positiveNumber(childElement(durationElement, 'Meters')?.text, 'TCX Meters');
+    secs = metres / (ctx.units === 'mph' ? speed * 0.44704 : speed / 3.6);
+  } else {
+    throw new Error(`TCX step duration ${durationType ?? 'unknown'} is not supported (use time or distance).`);
+  }
+
+  const phase = childElement(element, 'Intensity')?.text.trim() === 'Resting' ? 'recovery' : undefined;
+  return constant(secs, speed, phase, childElement(element, 'Name')?.text.trim() || undefined);
+}
+
+function readTcx(source: string, ctx: ImportContext): ImportedWorkout {
+  const root = parseXml(source);
+  const workouts = childElement(root, 'Workouts');
+  const workout = workouts ? childElement(workouts, 'Workout') : undefined;
+  if (!workout) {
+    throw new Error('TCX file does not contain a <Workouts><Workout> element.');
+  }
+  return {
+    name: childElement(workout, 'Name')?.text.trim() || undefined,
+    blocks: childElements(workout, 'Step').map((element) => readTcxStep(element, ctx)),
+  };
+}
+
+function parseClock(value: string): number | undefined {
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (!/^\d+(?::[0-5]\d){1,2}$/.test(value)) {
+    return undefined;
+  }
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+function parseCsvTarget(value: string, ctx: ImportContext): number | undefined {
+  if (value.includes(':')) {
+    try {
+      return paceToSpeed(parsePace(value, paceUnitFor(ctx.units)), ctx.units);
+    } catch {
+      return undefined;
+    }
+  }
+  const speed = Number(value);
+  return value && Number.isFinite(speed) && speed > 0 ? speed : undefined;
+}
+
+function readCsv(source: string, ctx: ImportContext): ImportedWorkout {
+  const blocks: WorkoutBlock[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (!line) {
+      return;
+    }
+    const [durationCell = '', targetCell = '', ...labelCells] = line.split(',').map((cell) => cell.trim());
+    const secs = parseClock(durationCell);
+    if (secs === undefined && !blocks.length) {
+      // A leading row that is not a duration is a header.
+      return;
+    }
+    if (secs === undefined || secs <= 0) {
+      throw new Error(`CSV line ${index + 1}: expected a duration in seconds or mm:ss, got "${durationCell}".`);
+    }
+    const speed = parseCsvTarget(targetCell, ctx);
+    if (speed === undefined) {
+      throw new Error(`CSV line ${index + 1}: expected a speed or a pace such as 12:00/mi, got "${targetCell}".`);
+    }
+    blocks.push(constant(secs, speed, undefined, labelCells.join(',') || undefined));
+  });
+  return { blocks };
+}
+
+/**
+ * Reads a `.zwo`, TCX, or CSV workout and fits it to a device profile: every target is snapped
+ * to the profile's speeds and the usual safety pass (ramp limits, minimum segments) is applied.
+ * CSV rows are `duration,speed-or-pace[,label]`, with speeds in the profile's units.
+ */
+export function importWorkout(profile: DeviceProfile, source: string, opts: ImportWorkoutOpts): Workout {
+  const speeds = sortSpeeds(profile.speeds);
+  const min = speeds[0];
+  const max = speeds[speeds.length - 1];
+  const ctx: ImportContext = {
+    units: profile.units,
+    min,
+    max,
+    referenceSpeed: opts.referenceSpeed ?? max,
+    minSegmentSec: profile.minSegmentSec ?? 0,
+  };
+
+  const readers: Record<ImportFormat, (text: string, context: ImportContext) => ImportedWorkout> = {
+    zwo: readZwo,
+    tcx: readTcx,
+    csv: readCsv,
+  };
+  const imported = readers[opts.format](source, ctx);
+  if (!imported.blocks.length) {
+    throw new Error(`The ${opts.format} workout has no steps.`);
+  }
+
+  // Steps without an explicit phase are classified like custom workouts: fast steps are work,
+  // slow steps bracketing the workout are the warm-up and cool-down.
+  const phaseFor = (segment: Segment, index: number, count: number, topLevel: boolean): SegmentPhase => {
+    if (segment.phase) {
+      return segment.phase;
+    }
+    if (segment.speed >= max * 0.75) {
+      return 'work';
+    }
+    if (!topLevel) {
+      return 'recovery';
+    }
+    return index === 0 ? 'warmup' : index === count - 1 ? 'cooldown' : 'step';
+  };
+
+  const conform = (blocks: WorkoutBlock[], topLevel: boolean): WorkoutBlock[] =>
+    blocks.map((block, index) => {
+      if (block.type !== 'step') {
+        return { ...block, blocks: conform(block.blocks, false) };
+      }
+      const targetSpeed = Math.round(block.segment.speed * 100) / 100;
+      return step({
+        ...block.segment,
+        speed: planSpeed(profile, speeds, clamp(targetSpeed, min, max)),
+        phase: phaseFor(block.segment, index, blocks.length, topLevel),
+        targetSpeed,
+      });
+    });
+
+  const plannedSecs = flatten(imported.blocks).reduce((sum, segment) => sum + segment.secs, 0);
+  return finalizeWorkout(
+    profile,
+    opts.name ?? imported.name ?? 'Imported',
+    conform(imported.blocks, true),
+    plannedSecs,
+  );
+}
@@ -0,0 +1,22 @@
+import { type Segment, type Workout, type WorkoutBlock, flatten } from '../generator.js';
+
+function sameTimeline(expected: Segment[], actual: Segment[]): boolean {
+  return (
+    expected.length === actual.length &&
+    expected.every(
+      (segment, index) =>
+        segment.secs === actual[index].secs &&
+        segment.speed === actual[index].speed &&
+        segment.incline === actual[index].incline,
+    )
+  );
+}
+
+/**
+ * Returns the planned block tree when the safety pass left it intact (no clamping, merging, or
+ * inserted ramps), so exporters can write repeat groups natively. Otherwise exporters must fall
+ * back to the final segment timeline.
+ */
+export function intactBlocks(workout: Workout): WorkoutBlock[] | undefined {
+  return workout.blocks && sameTimeline(flatten(workout.blocks), workout.segments) ? workout.blocks : undefined;
+}
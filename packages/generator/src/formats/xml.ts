@@ -0,0 +1,150 @@
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/** Strips a namespace prefix, so `xsi:type` and `type` compare equal. */
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => localName(child.name) === name);
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => localName(child.name) === name);
+}
+
+export function attribute(element: XmlElement, name: string): string | undefined {
+  const key = Object.keys(element.attributes).find((candidate) => localName(candidate) === name);
+  return key === undefined ? undefined : element.attributes[key];
+}
+
+/**
+ * Parses the small, well-formed XML documents used by workout exchange formats. DTDs, processing
+ * instructions, and comments are skipped; mixed content is collapsed into each element's `text`.
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let index = 0;
+
+  const lineAt = (offset: number) => source.slice(0, offset).split('\n').length;
+  function fail(message: string, offset: number): never {
+    throw new Error(`Invalid XML (line ${lineAt(offset)}): ${message}`);
+  }
+
+  while (index < source.length) {
+    const open = source.indexOf('<', index);
+    const text = source.slice(index, open === -1 ? source.length : open);
+    if (text.trim()) {
+      if (!stack.length) {
+        fail('text outside the root element', index);
+      }
+      stack[stack.length - 1].text += decodeEntities(text);
+    }
+    if (open === -1) {
+      break;
+    }
+
+    if (source.startsWith('<!--', open)) {
+      const end = source.indexOf('-->', open);
+      index = end === -1 ? fail('unterminated comment', open) : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', open)) {
+      const end = source.indexOf(']]>', open);
+      if (end === -1 || !stack.length) {
+        fail('unexpected CDATA section', open);
+      }
+      stack[stack.length - 1].text += source.slice(open + 9, end);
+      index = end + 3;
+      continue;
+    }
+    if (source.startsWith('<?', open) || source.startsWith('<!', open)) {
+      const end = source.indexOf('>', open);
+      index = end === -1 ? fail('unterminated declaration', open) : end + 1;
+      continue;
+    }
+
+    const close = source.indexOf('>', open);
+    if (close === -1) {
+      fail('unterminated tag', open);
+    }
+    const tag = source.slice(open + 1, close);
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      const current = stack.pop();
+      if (!current || current.name !== name) {
+        fail(`unexpected closing tag </${name}>`, open);
+      }
+      index = close + 1;
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = /^\s*([^\s/>]+)/.exec(body);
+    if (!nameMatch) {
+      fail('missing tag name', open);
+    }
+    const element: XmlElement = { name: nameMatch[1], attributes: {}, children: [], text: '' };
+    const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(body.slice(nameMatch[0].length)))) {
+      element.attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+    }
+
+    if (stack.length) {
+      stack[stack.length - 1].children.push(element);
+    } else if (root) {
+      fail('multiple root elements', open);
+    } else {
+      root = element;
+    }
+    if (!selfClosing) {
+      stack.push(element);
+    }
+    index = close + 1;
+  }
+
+  if (stack.length) {
+    fail(`unclosed element <${stack[stack.length - 1].name}>`, source.length);
+  }
+  if (!root) {
+    fail('no root element', 0);
+  }
+  return root;
+}
@@ -0,0 +1,146 @@
+import { type Segment, type Workout, type WorkoutBlock, renderCue } from '../generator.js';
+import { intactBlocks } from './structure.js';
+import { escapeXml } from './xml.js';
+
+export type ZwoEncodeOpts = {
+  /** Speed that maps to 100% (`1.0`) in the file. Defaults to the fastest segment of the workout. */
+  referenceSpeed?: number;
+  author?: string;
+  description?: string;
+};
+
+type Attributes = Record<string, string | number>;
+
+function element(name: string, attributes: Attributes, cue?: string): string {
+  const attrs = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${typeof value === 'string' ? escapeXml(value) : value}"`)
+    .join('');
+  if (!cue) {
+    return `    <${name}${attrs}/>`;
+  }
+  return [
+    `    <${name}${attrs}>`,
+    `      <textevent timeoffset="0" message="${escapeXml(cue)}"/>`,
+    `    </${name}>`,
+  ].join('\n');
+}
+
+/**
+ * Serializes a workout as a Zwift `.zwo` run workout. Targets are written as a fraction of the
+ * reference speed (Zwift's `pace="0"`, the athlete's one-mile pace), and each cue becomes a text event.
+ */
+export function encodeZwoWorkout(workout: Workout, opts: ZwoEncodeOpts = {}): string {
+  const reference = opts.referenceSpeed ?? Math.max(...workout.segments.map((segment) => segment.speed));
+  if (!(reference > 0)) {
+    throw new Error('ZWO export needs a positive reference speed.');
+  }
+  const power = (speed: number) => Math.round((speed / reference) * 1000) / 1000;
+  const lines: string[] = [];
+
+  const steady = (segment: Segment, cue: string | undefined) => {
+    const target = power(segment.speed);
+    if (segment.phase === 'warmup' || segment.phase === 'cooldown') {
+      const name = segment.phase === 'warmup' ? 'Warmup' : 'Cooldown';
+      lines.push(element(name, { Duration: segment.secs, PowerLow: target, PowerHigh: target, pace: 0 }, cue));
+    } else {
+      lines.push(element('SteadyState', { Duration: segment.secs, Power: target, pace: 0 }, cue));
+    }
+  };
+
+  const emitSegments = (segments: Segment[]) => {
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      if (segment.phase !== 'ramp') {
+        steady(segment, segment.cue);
+        continue;
+      }
+      // Consecutive ramp steps inserted by the safety pass read best as one ramp.
+      let end = i;
+      while (segments[end + 1]?.phase === 'ramp') {
+        end += 1;
+      }
+      const run = segments.slice(i, end + 1);
+      lines.push(
+        element(
+          'Ramp',
+          {
+            Duration: run.reduce((sum, item) => sum + item.secs, 0),
+            PowerLow: power(segment.speed),
+            PowerHigh: power(segments[end].speed),
+            pace: 0,
+          },
+          segment.cue,
+        ),
+      );
+      i = end;
+    }
+  };
+
+  const emitBlocks = (blocks: WorkoutBlock[], segments: Segment[]) => {
+    let index = 0;
+    const take = (count: number) => {
+      const slice = segments.slice(index, index + count);
+      index += count;
+      return slice;
+    };
+    const size = (block: WorkoutBlock): number => {
+      switch (block.type) {
+        case 'step':
+          return 1;
+        case 'repeat':
+          return block.count * block.blocks.reduce((sum, child) => sum + size(child), 0);
+        case 'set':
+          return (
+            block.count * block.blocks.reduce((sum, child) => sum + size(child), 0) + (block.rest ? block.count - 1 : 0)
+          );
+      }
+    };
+
+    for (const block of blocks) {
+      const [on, off] = block.type === 'repeat' ? block.blocks : [];
+      if (block.type === 'repeat' && block.blocks.length === 2 && on.type === 'step' && off.type === 'step') {
+        take(size(block));
+        lines.push(
+          element(
+            'IntervalsT',
+            {
+              Repeat: block.count,
+              OnDuration: on.segment.secs,
+              OffDuration: off.segment.secs,
+              OnPower: power(on.segment.speed),
+              OffPower: power(off.segment.speed),
+              pace: 0,
+            },
+            renderCue({ ...on.segment, repeat: undefined }, workout.units),
+          ),
+        );
+      } else if (block.type === 'step') {
+        emitSegments(take(1));
+      } else {
+        // Nested or longer groups have no native .zwo form, so they are written out in full.
+        emitSegments(take(size(block)));
+      }
+    }
+  };
+
+  const blocks = intactBlocks(workout);
+  if (blocks) {
+    emitBlocks(blocks, workout.segments);
+  } else {
+    emitSegments(workout.segments);
+  }
+
+  return [
+    '<workout_file>',
+    `  <author>${escapeXml(opts.author ?? 'PaceForge')}</author>`,
+    `  <name>${escapeXml(workout.name)}</name>`,
+    `  <description>${escapeXml(opts.description ?? '')}</description>`,
+    '  <sportType>run</sportType>',
+    '  <tags/>',
+    '  <workout>',
+    ...lines,
+    '  </workout>',
+    '</workout_file>',
+    '',
+  ].join('\n');
+}
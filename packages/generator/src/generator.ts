@@ -1,5 +1,23 @@
+import { type DistanceUnit, type WorkoutMetrics, computeMetrics, metresPerSecond, toMetres } from './metrics.js';
+import { formatPace, speedToPace } from './pace.js';
+import {
+  type HeartRateRange,
+  type HrZone,
+  type UserProfile,
+  formatZone,
+  zoneForSpeed,
+  zoneHeartRate,
+  zoneSpeed,
+} from './zones.js';
+
 export type Units = 'mph' | 'kph';
 
+export type RampPolicy = 'clamp' | 'step';
+
+export type QuantizeStrategy = 'down' | 'nearest' | 'up' | 'dither';
+
+export type IntensityReference = 'max' | 'range' | 'threshold';
+
 export type DeviceProfile = {
   name: string;
   units: Units;
@@ -7,6 +25,31 @@ export type DeviceProfile = {
   inclines?: number[];
   minSegmentSec?: number;
   rampLimitPerChange?: number;
+  rampPolicy?: RampPolicy;
+  rampStepSecs?: number;
+  inclineRampLimitPerChange?: number;
+  quantize?: QuantizeStrategy;
+  intensityReference?: IntensityReference;
+  thresholdSpeed?: number;
+  highSpeedThreshold?: number;
+  maxHighSpeedSecs?: number;
+  coolOffSecs?: number;
+  maxSessionSecs?: number;
+  user?: UserProfile;
+};
+
+export type BlockPosition = {
+  kind: 'repeat' | 'set';
+  index: number;
+  count: number;
+};
+
+export type SegmentPhase = 'warmup' | 'work' | 'recovery' | 'stride' | 'cooldown' | 'step' | 'ramp';
+
+export type SegmentSafety = {
+  clamped?: boolean;
+  merged?: boolean;
+  dutyCycle?: boolean;
 };
 
 export type Segment = {
@@ -14,15 +57,56 @@ export type Segment = {
   speed: number;
   incline?: number;
   cue?: string;
+  phase?: SegmentPhase;
+  label?: string;
+  repeat?: { index: number; count: number };
+  position?: BlockPosition[];
+  targetSpeed?: number;
+  /** Pace at `speed` in the workout's units, e.g. `12:00/mi`; set on the final timeline. */
+  pace?: string;
+  /** Expected heart-rate zone at `speed`, from the profile's zone calibration. */
+  zone?: HrZone;
+  hr?: HeartRateRange;
+  safety?: SegmentSafety;
 };
 
+export type StepBlock = {
+  type: 'step';
+  segment: Segment;
+};
+
+export type RepeatBlock = {
+  type: 'repeat';
+  count: number;
+  blocks: WorkoutBlock[];
+};
+
+export type SetBlock = {
+  type: 'set';
+  count: number;
+  blocks: WorkoutBlock[];
+  rest?: Segment;
+};
+
+export type WorkoutBlock = StepBlock | RepeatBlock | SetBlock;
+
 export type Workout = {
   name: string;
   units: Units;
   totalSecs: number;
   segments: Segment[];
+  blocks?: WorkoutBlock[];
+  plannedSecs?: number;
+  rampSecs?: number;
+  /** Planned length before the profile's `maxSessionSecs` compressed the workout. */
+  cappedFromSecs?: number;
+  /** Distance the plan was built to cover, for distance goals and distance reps. */
+  goalMetres?: number;
+  metrics?: WorkoutMetrics;
 };
 
+export type IntervalStructure = 'even' | 'pyramid' | 'ascending' | 'descending';
+
 export type IntervalPlanOpts = {
   name?: string;
   warmupMins?: number;
@@ -32,20 +116,96 @@ export type IntervalPlanOpts = {
   easySecs?: number;
   hardIntensity?: number;
   easyIntensity?: number;
+  hardSpeed?: number;
+  easySpeed?: number;
+  hardZone?: HrZone;
+  easyZone?: HrZone;
+  hardDistance?: number;
+  easyDistance?: number;
+  distanceUnit?: DistanceUnit;
+  sets?: number;
+  setRestSecs?: number;
+  /** Rep lengths: all `hardSecs` (even), or growing by `repStepSecs` up to the middle, last, or first rep. */
+  structure?: IntervalStructure;
+  repStepSecs?: number;
+  /** Explicit rep lengths in seconds; overrides `repeats`, `hardSecs`, and `structure`. */
+  repSecs?: number[];
+  /** Added to the hard intensity on each rep after the first. */
+  hardIntensityStep?: number;
+  /** Recovery length as a multiple of the rep before it; overrides `easySecs`. */
+  recoveryRatio?: number;
+  /** Session length to hit exactly, by solving for `repeats` (when unset) and resizing the warm-up and cool-down. */
+  totalMins?: number;
 };
 
 export type SteadyOpts = {
   name?: string;
   totalMins?: number;
   intensity?: number;
+  speed?: number;
+  zone?: HrZone;
+  /** Warm-up and cool-down lengths; each defaults to five minutes or half the session, whichever is shorter. */
+  warmupMins?: number;
+  cooldownMins?: number;
+  /** Warm-up and cool-down intensity fractions; the cool-down follows the warm-up unless set. */
+  warmupIntensity?: number;
+  cooldownIntensity?: number;
   addStrides?: boolean;
+  strides?: number;
+  strideSecs?: number;
+  /** Easy cruising after each stride. */
+  strideFloatSecs?: number;
+  strideIntensity?: number;
 };
 
+export type ProgressionShape = 'ascending' | 'descending' | 'pyramid' | 'hold';
+
 export type ProgressionOpts = {
   name?: string;
   totalMins?: number;
   steps?: number;
   topIntensity?: number;
+  topSpeed?: number;
+  topZone?: HrZone;
+  warmupMins?: number;
+  cooldownMins?: number;
+  warmupIntensity?: number;
+  cooldownIntensity?: number;
+  shape?: ProgressionShape;
+  /** Minutes at the top speed after the climb, for the `hold` shape; capped at half the time between the bookends. */
+  holdMins?: number;
+  /** `top` gives faster steps proportionally more time (weights 1, 2, 3, … by speed level). */
+  weighting?: 'even' | 'top';
+};
+
+export type DistanceOpts = {
+  name?: string;
+  distance?: number;
+  distanceUnit?: DistanceUnit;
+  warmupMins?: number;
+  cooldownMins?: number;
+  intensity?: number;
+  speed?: number;
+  zone?: HrZone;
+};
+
+export type HillPattern = 'rolling' | 'repeats' | 'ladder';
+
+export type HillOpts = {
+  name?: string;
+  pattern?: HillPattern;
+  warmupMins?: number;
+  cooldownMins?: number;
+  repeats?: number;
+  hillSecs?: number;
+  recoverySecs?: number;
+  intensity?: number;
+  recoveryIntensity?: number;
+  speed?: number;
+  recoverySpeed?: number;
+  zone?: HrZone;
+  recoveryZone?: HrZone;
+  topIncline?: number;
 };
 
 export function quantizeDown(allowed: number[], target: number): number {
@@ -64,14 +224,167 @@ export function quantizeDown(allowed: number[], target: number): number {
   return candidate;
 }
 
-function clamp(n: number, lo: number, hi: number) {
+/**
+ * Snaps a target to an allowed value. `dither` needs a duration to split across the bracketing
+ * speeds, so for a single value it behaves like `nearest`; ties between two values round up.
+ */
+export function quantize(allowed: number[], target: number, strategy: QuantizeStrategy = 'down'): number {
+  const lower = quantizeDown(allowed, target);
+  const upper = allowed.find((value) => value >= target) ?? allowed[allowed.length - 1];
+  if (strategy === 'down' || lower === upper) {
+    return lower;
+  }
+  if (strategy === 'up') {
+    return upper;
+  }
+  return target - lower < upper - target ? lower : upper;
+}
+
+/**
+ * The speed a generator plans for a target. Dithered targets are kept exact so the safety pass can
+ * split them; every other strategy snaps them straight away.
+ */
+export function planSpeed(profile: DeviceProfile, allowed: number[], target: number): number {
+  return profile.quantize === 'dither' ? target : quantize(allowed, target, profile.quantize);
+}
+
+export function clamp(n: number, lo: number, hi: number) {
   return Math.max(lo, Math.min(hi, n));
 }
 
-function sortSpeeds(speeds: number[]): number[] {
+function roundTarget(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function referenceSpeeds(profile: DeviceProfile): { floor: number; top: number } {
+  const speeds = sortSpeeds(profile.speeds);
+  if (!speeds.length) {
+    throw new Error('Device profile speeds cannot be empty.');
+  }
+  const floor = speeds[0];
+  if (profile.intensityReference !== 'threshold') {
+    return { floor, top: speeds[speeds.length - 1] };
+  }
+  if (!(profile.thresholdSpeed !== undefined && profile.thresholdSpeed > 0)) {
+    throw new Error('Device profile has no threshold speed (set thresholdSpeed).');
+  }
+  return { floor, top: profile.thresholdSpeed };
+}
+
+/**
+ * The speed for an intensity fraction under the profile's `intensityReference`: a fraction of the top
+ * speed (`max`, the default), of the way from the slowest to the fastest speed (`range`), or of the
+ * user's `thresholdSpeed` (`threshold`). The result is unquantized.
+ */
+export function intensitySpeed(profile: DeviceProfile, fraction: number): number {
+  const { floor, top } = referenceSpeeds(profile);
+  return profile.intensityReference === 'range' ? floor + (top - floor) * fraction : top * fraction;
+}
+
+/** The inverse of `intensitySpeed`: the intensity fraction that targets `speed`. */
+export function speedIntensity(profile: DeviceProfile, speed: number): number {
+  const { floor, top } = referenceSpeeds(profile);
+  if (profile.intensityReference === 'range') {
+    return top > floor ? (speed - floor) / (top - floor) : 1;
+  }
+  return speed / top;
+}
+
+/**
+ * The warm-up and cool-down speed: 35% of the way from the slowest speed to the top speed, or to the
+ * threshold speed under the `threshold` reference.
+ */
+export function warmupSpeed(profile: DeviceProfile): number {
+  const { floor, top } = referenceSpeeds(profile);
+  return floor + (top - floor) * 0.35;
+}
+
+// Absolute speeds win over zones, and zones win over fractions of max speed.
+function resolveTarget(profile: DeviceProfile, fallback: number, speed?: number, zone?: HrZone): number {
+  return roundTarget(speed ?? (zone ? zoneSpeed(profile.user, zone) : fallback));
+}
+
+export function sortSpeeds(speeds: number[]): number[] {
   return [...speeds].sort((a, b) => a - b);
 }
 
+function placeSegment(segment: Segment, position: BlockPosition[]): Segment {
+  const resolved = [...position, ...(segment.position ?? [])];
+  if (!resolved.length) {
+    return { ...segment };
+  }
+  const innermost = [...resolved].reverse().find((entry) => entry.kind === 'repeat');
+  const repeat = innermost ? { index: innermost.index, count: innermost.count } : undefined;
+  return { ...segment, position: resolved, repeat };
+}
+
+function expandBlocks(blocks: WorkoutBlock[], position: BlockPosition[]): Segment[] {
+  const segments: Segment[] = [];
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'step':
+        segments.push(placeSegment(block.segment, position));
+        break;
+      case 'repeat':
+        for (let i = 0; i < block.count; i++) {
+          const repPosition: BlockPosition[] = [...position, { kind: 'repeat', index: i + 1, count: block.count }];
+          segments.push(...expandBlocks(block.blocks, repPosition));
+        }
+        break;
+      case 'set':
+        for (let i = 0; i < block.count; i++) {
+          const setPosition: BlockPosition[] = [...position, { kind: 'set', index: i + 1, count: block.count }];
+          segments.push(...expandBlocks(block.blocks, setPosition));
+          if (block.rest && i < block.count - 1) {
+            segments.push(placeSegment(block.rest, setPosition));
+          }
+        }
+        break;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Expands a block tree into the linear segment timeline, tagging every segment that sits inside a
+ * repeat or set with its position (outermost first) so consumers can show "set 2 of 3, rep 4 of 6".
+ */
+export function flatten(blocks: WorkoutBlock[]): Segment[] {
+  return expandBlocks(blocks, []);
+}
+
+export function step(segment: Segment): StepBlock {
+  return { type: 'step', segment };
+}
+
+const PHASE_LABELS: Record<SegmentPhase, string> = {
+  warmup: 'Warm-up',
+  work: 'Hard',
+  recovery: 'Easy',
+  stride: 'Stride',
+  cooldown: 'Cool-down',
+  step: 'Step',
+  ramp: 'Ramp',
+};
+
+/**
+ * Builds the spoken/displayed cue from a segment's structured fields. An explicit `cue` wins over
+ * the generated text; safety adjustments are appended either way.
+ */
+export function renderCue(segment: Segment, units: Units): string | undefined {
+  const label = segment.label ?? (segment.phase ? PHASE_LABELS[segment.phase] : undefined);
+  let cue = segment.cue;
+  if (cue === undefined && label !== undefined) {
+    const counter = segment.repeat ? ` ${segment.repeat.index}/${segment.repeat.count}` : '';
+    const incline = segment.incline !== undefined ? `, ${segment.incline}% incline` : '';
+    cue = `${label}${counter} @ ${segment.speed} ${units}${incline}`;
+  }
+  if (segment.safety?.clamped) {
+    return cue ? `${cue} (clamped)` : '(clamped)';
+  }
+  return cue;
+}
+
 function mergeCue(previous?: string, next?: string) {
   if (previous && next && previous !== next) {
     return `${previous} | ${next}`;
@@ -79,61 +392,255 @@ function mergeCue(previous?: string, next?: string) {
   return previous ?? next;
 }
 
+function rampLimited(allowed: number[], previous: number, value: number, rampLimit: number): number {
+  if (Math.abs(value - previous) <= rampLimit) {
+    return value;
+  }
+  const candidates = allowed.filter((candidate) => Math.abs(candidate - previous) <= rampLimit);
+  if (!candidates.length) {
+    return previous;
+  }
+  let best = candidates[0];
+  let bestDiff = Math.abs(best - value);
+  for (const candidate of candidates) {
+    const diff = Math.abs(candidate - value);
+    if (diff < bestDiff) {
+      best = candidate;
+      bestDiff = diff;
+    }
+  }
+  return best;
+}
+
+/**
+ * Intermediate speeds that walk from `from` to `to` without any single change exceeding the ramp
+ * limit, taking the biggest allowed stride each time. Returns undefined when the speed list has a
+ * gap wider than the limit.
+ */
+function rampSteps(allowed: number[], from: number, to: number, rampLimit: number): number[] | undefined {
+  const steps: number[] = [];
+  let current = from;
+  while (Math.abs(to - current) > rampLimit) {
+    const direction = Math.sign(to - current);
+    const reachable = allowed.filter(
+      (value) => Math.abs(value - current) <= rampLimit && (value - current) * direction > 0,
+    );
+    if (!reachable.length) {
+      return undefined;
+    }
+    current = direction > 0 ? reachable[reachable.length - 1] : reachable[0];
+    steps.push(current);
+  }
+  return steps;
+}
+
+/**
+ * Splits each off-grid segment between the two allowed speeds that bracket it, so the time-weighted
+ * average matches the target. The half nearer the previous speed runs first. A segment falls back to
+ * the nearest speed when either half would be shorter than `minSegmentSec`, or when switching between
+ * the two speeds would exceed `rampLimitPerChange`.
+ */
+function ditherSegments(profile: DeviceProfile, allowed: number[], segments: Segment[]): Segment[] {
+  const shortest = Math.max(1, profile.minSegmentSec ?? 1);
+  const dithered: Segment[] = [];
+  for (const segment of segments) {
+    const lower = quantizeDown(allowed, segment.speed);
+    const upper = quantize(allowed, segment.speed, 'up');
+    const upperSecs = upper > lower ? Math.round((segment.secs * (segment.speed - lower)) / (upper - lower)) : 0;
+    const lowerSecs = segment.secs - upperSecs;
+    const withinRamp = profile.rampLimitPerChange === undefined || upper - lower <= profile.rampLimitPerChange;
+    if (!withinRamp || upperSecs < shortest || lowerSecs < shortest) {
+      dithered.push({ ...segment, speed: quantize(allowed, segment.speed, 'nearest') });
+    } else {
+      const previous = dithered.length ? dithered[dithered.length - 1].speed : lower;
+      const halves = [
+        { ...segment, secs: lowerSecs, speed: lower },
+        { ...segment, secs: upperSecs, speed: upper },
+      ];
+      dithered.push(...(previous > segment.speed ? halves.reverse() : halves));
+    }
+  }
+  return dithered;
+}
+
+const COOL_OFF_LABEL = 'Cool-off';
+
+/** Whether a segment is a cool-off inserted to respect the motor duty cycle. */
+export function isCoolOff(segment: Segment): boolean {
+  return Boolean(segment.safety?.dutyCycle) && segment.label === COOL_OFF_LABEL;
+}
+
+/**
+ * Enforces the motor's duty cycle: no stretch at or above `highSpeedThreshold` may run longer than
+ * `maxHighSpeedSecs` until the belt has spent `coolOffSecs` (default 60) below it. An overlong segment
+ * is split by cool-offs at the fastest speed under the threshold. The cool-off time comes out of the
+ * segment itself, so the total duration is unchanged. This runs before the ramp limits, which then
+ * apply to the cool-offs like any other segment.
+ */
+function enforceDutyCycle(profile: DeviceProfile, allowed: number[], segments: Segment[]): Segment[] {
+  const threshold = profile.highSpeedThreshold;
+  const limit = profile.maxHighSpeedSecs;
+  if (threshold === undefined || limit === undefined) {
+    return segments;
+  }
+  const coolSpeed = [...allowed].reverse().find((speed) => speed < threshold);
+  if (coolSpeed === undefined) {
+    throw new Error('Device profile has no speed below highSpeedThreshold to cool off at.');
+  }
+  const coolOffSecs = profile.coolOffSecs ?? 60;
+  const shortest = Math.max(1, profile.minSegmentSec ?? 1);
+  const rampStepSecs = profile.rampStepSecs ?? profile.minSegmentSec ?? 15;
+
+  const result: Segment[] = [];
+  // Seconds at or above the threshold since the last full cool-off, and seconds below it since then.
+  let hot = 0;
+  let cool = 0;
+  for (const segment of segments) {
+    if (quantize(allowed, segment.speed, profile.quantize) < threshold) {
+      cool += segment.secs;
+      if (cool >= coolOffSecs) {
+        hot = 0;
+      }
+      result.push(segment);
+      continue;
+    }
+
+    const piece = (secs: number): Segment => ({ ...segment, secs, safety: { ...segment.safety, dutyCycle: true } });
+    // Under the step ramp policy the ramp down to the cool-off speed comes out of the cool-off, and the
+    // part of it at or above the threshold still counts towards the limit.
+    const descent =
+      profile.rampPolicy === 'step' && profile.rampLimitPerChange !== undefined
+        ? (rampSteps(
+            allowed,
+            quantize(allowed, segment.speed, profile.quantize),
+            coolSpeed,
+            profile.rampLimitPerChange,
+          ) ?? [])
+        : [];
+    const descentSecs = descent.length * rampStepSecs;
+    const hotDescentSecs = descent.filter((speed) => speed >= threshold).length * rampStepSecs;
+    let secs = segment.secs;
+    let split = false;
+    while (hot + secs > limit) {
+      split = true;
+      const run = limit - hot - hotDescentSecs >= shortest ? limit - hot - hotDescentSecs : 0;
+      if (run > 0) {
+        result.push(piece(run));
+        secs -= run;
+        hot += run;
+        cool = 0;
+      }
+      // A tail too short to stand alone is folded into the cool-off.
+      let rest = Math.min(Math.max(coolOffSecs - cool, shortest) + descentSecs, secs);
+      if (secs - rest < shortest) {
+        rest = secs;
+      }
+      result.push({
+        ...segment,
+        secs: rest,
+        speed: coolSpeed,
+        targetSpeed: coolSpeed,
+        cue: undefined,
+        phase: 'recovery',
+        label: COOL_OFF_LABEL,
+        repeat: undefined,
+        safety: { dutyCycle: true },
+      });
+      secs -= rest;
+      hot += hotDescentSecs;
+      cool += Math.max(0, rest - descentSecs);
+      // A cool-off cut short by the end of the segment carries on into whatever follows.
+      if (cool >= coolOffSecs) {
+        hot = 0;
+      }
+    }
+    if (secs > 0) {
+      result.push(split ? piece(secs) : segment);
+      hot += secs;
+      cool = 0;
+    }
+  }
+  return result;
+}
+
 function applySafety(profile: DeviceProfile, rawSegments: Segment[]): Segment[] {
   const allowed = sortSpeeds(profile.speeds);
+  const allowedInclines = profile.inclines?.length ? sortSpeeds(profile.inclines) : undefined;
   const rampLimit = profile.rampLimitPerChange;
+  const inclineRampLimit = profile.inclineRampLimitPerChange;
   const minSegmentSec = profile.minSegmentSec;
+  const rampStepSecs = profile.rampStepSecs ?? minSegmentSec ?? 15;
+  const planned = enforceDutyCycle(
+    profile,
+    allowed,
+    profile.quantize === 'dither' ? ditherSegments(profile, allowed, rawSegments) : rawSegments,
+  );
 
   const constrained: Segment[] = [];
 
-  for (const segment of rawSegments) {
-    const baseSpeed = quantizeDown(allowed, segment.speed);
+  for (const segment of planned) {
+    const previous = constrained.length ? constrained[constrained.length - 1] : undefined;
+    const baseSpeed = quantize(allowed, segment.speed, profile.quantize);
     let speed = baseSpeed;
-    let cue = segment.cue;
-
-    if (constrained.length && rampLimit !== undefined) {
-      const prevSpeed = constrained[constrained.length - 1].speed;
-      if (Math.abs(speed - prevSpeed) > rampLimit) {
-        const candidates = allowed.filter((value) => Math.abs(value - prevSpeed) <= rampLimit);
-        if (candidates.length) {
-          let best = candidates[0];
-          let bestDiff = Math.abs(best - baseSpeed);
-          for (const candidate of candidates) {
-            const diff = Math.abs(candidate - baseSpeed);
-            if (diff < bestDiff) {
-              best = candidate;
-              bestDiff = diff;
-            }
-          }
-          if (best !== speed) {
-            speed = best;
-            cue = cue ? `${cue} (clamped)` : '(clamped)';
-          }
-        } else if (prevSpeed !== speed) {
-          speed = prevSpeed;
-          cue = cue ? `${cue} (clamped)` : '(clamped)';
+    let secs = segment.secs;
+    let incline = segment.incline;
+    let clamped = false;
+
+    if (previous && rampLimit !== undefined) {
+      const ramps =
+        profile.rampPolicy === 'step' ? rampSteps(allowed, previous.speed, baseSpeed, rampLimit) : undefined;
+      const rampSecs = (ramps?.length ?? 0) * rampStepSecs;
+      // Ramp time comes out of the segment being entered, so it must leave that segment a usable length.
+      if (ramps?.length && secs - rampSecs >= Math.max(1, minSegmentSec ?? 1)) {
+        for (const rampSpeed of ramps) {
+          constrained.push({
+            secs: rampStepSecs,
+            speed: rampSpeed,
+            incline: previous.incline,
+            phase: 'ramp',
+            targetSpeed: rampSpeed,
+          });
         }
+        secs -= rampSecs;
+      } else {
+        speed = rampLimited(allowed, previous.speed, baseSpeed, rampLimit);
+        clamped = speed !== baseSpeed;
       }
     }
 
-    constrained.push({ ...segment, speed, cue });
+    if (incline !== undefined && allowedInclines) {
+      const baseIncline = quantizeDown(allowedInclines, incline);
+      incline = baseIncline;
+      if (previous?.incline !== undefined && inclineRampLimit !== undefined) {
+        incline = rampLimited(allowedInclines, previous.incline, baseIncline, inclineRampLimit);
+        clamped = clamped || incline !== baseIncline;
+      }
+    }
+
+    const safety = clamped ? { ...segment.safety, clamped: true } : segment.safety;
+    constrained.push({ ...segment, secs, speed, incline, safety });
   }
 
+  const rendered = constrained.map((segment) => ({ ...segment, cue: renderCue(segment, profile.units) }));
+
   if (minSegmentSec === undefined) {
-    return constrained.map((segment) => ({ ...segment }));
+    return rendered;
   }
 
   const merged: Segment[] = [];
-  for (const segment of constrained) {
+  for (const segment of rendered) {
+    const last = merged.length ? merged[merged.length - 1] : undefined;
     if (
-      merged.length &&
-      merged[merged.length - 1].speed === segment.speed &&
-      (merged[merged.length - 1].secs < minSegmentSec || segment.secs < minSegmentSec)
+      last &&
+      last.speed === segment.speed &&
+      last.incline === segment.incline &&
+      (last.secs < minSegmentSec || segment.secs < minSegmentSec)
     ) {
       merged[merged.length - 1] = {
-        ...merged[merged.length - 1],
-        secs: merged[merged.length - 1].secs + segment.secs,
-        cue: mergeCue(merged[merged.length - 1].cue, segment.cue),
+        ...last,
+        secs: last.secs + segment.secs,
+        cue: mergeCue(last.cue, segment.cue),
+        safety: { ...last.safety, ...segment.safety, merged: true },
       };
     } else {
       merged.push({ ...segment });
@@ -143,11 +650,109 @@ function applySafety(profile: DeviceProfile, rawSegments: Segment[]): Segment[]
   return merged.map((segment) => ({ ...segment }));
 }
 
-function finalizeWorkout(profile: DeviceProfile, name: string | undefined, segments: Segment[]): Workout {
+function annotate(profile: DeviceProfile, segment: Segment): Segment {
+  if (!(segment.speed > 0)) {
+    return segment;
+  }
+  const zone = zoneForSpeed(profile.user, segment.speed);
+  const hr = zone ? zoneHeartRate(profile.user, zone) : undefined;
+  return {
+    ...segment,
+    pace: formatPace(speedToPace(segment.speed, profile.units)),
+    ...(zone ? { zone } : {}),
+    ...(hr ? { hr } : {}),
+  };
+}
+
+export function finalizeWorkout(
+  profile: DeviceProfile,
+  name: string | undefined,
+  blocks: WorkoutBlock[],
+  plannedSecs?: number,
+): Workout {
   const resolvedName = name ?? profile.name;
-  const constrained = applySafety(profile, segments);
+  const planned = flatten(blocks);
+  const plannedTotal = planned.reduce((sum, segment) => sum + segment.secs, 0);
+  const cap = profile.maxSessionSecs !== undefined ? Math.floor(profile.maxSessionSecs) : undefined;
+  // The safety pass never changes the total, so an overlong plan is compressed up front.
+  const capped = cap !== undefined && plannedTotal > cap ? scaleSegments(profile, planned, cap) : undefined;
+  const constrained = applySafety(profile, capped ?? planned).map((segment) => annotate(profile, segment));
   const totalSecs = constrained.reduce((sum, segment) => sum + segment.secs, 0);
-  return { name: resolvedName, units: profile.units, totalSecs, segments: constrained };
+  const rampSecs = constrained
+    .filter((segment) => segment.phase === 'ramp')
+    .reduce((sum, segment) => sum + segment.secs, 0);
+  return {
+    name: resolvedName,
+    units: profile.units,
+    totalSecs,
+    segments: constrained,
+    blocks: capped ? capped.map(step) : blocks,
+    plannedSecs: capped ? cap : plannedSecs,
+    ...(rampSecs > 0 ? { rampSecs } : {}),
+    ...(capped ? { cappedFromSecs: plannedTotal } : {}),
+    metrics: computeMetrics({ segments: constrained, units: profile.units }, { massKg: profile.user?.massKg }),
+  };
+}
+
+/**
+ * Finalizes a distance-driven plan. Durations were derived from quantized speeds, but whole-second
+ * rounding still leaves a small error, so the final segment absorbs it and the workout covers
+ * `goalMetres` to within half a second of travel. The final segment only makes up for rounding: a
+ * larger gap, such as a rep the ramp limit clamped to a slower speed, is left in place for
+ * `analyzeWorkout` to report against the workout's `goalMetres`.
+ */
+function finalizeToDistance(profile: DeviceProfile, name: string, blocks: WorkoutBlock[], goalMetres: number): Workout {
+  const timeline = flatten(blocks);
+  const planned = timeline.reduce((sum, segment) => sum + segment.secs, 0);
+  const workout = { ...finalizeWorkout(profile, name, blocks, planned), goalMetres };
+  const final = workout.segments[workout.segments.length - 1];
+  if (!final || !(final.speed > 0) || workout.cappedFromSecs !== undefined) {
+    return workout;
+  }
+
+  const covered = workout.segments.reduce(
+    (sum, segment) => sum + metresPerSecond(segment.speed, profile.units) * segment.secs,
+    0,
+  );
+  // Each planned duration was rounded to the second, so it is off by at most half a second of travel.
+  const rounding = timeline.reduce((sum, segment) => sum + metresPerSecond(segment.speed, profile.units) / 2, 0);
+  const error = clamp(goalMetres - covered, -rounding, rounding);
+  const secs = Math.max(1, Math.round(final.secs + error / metresPerSecond(final.speed, profile.units)));
+  if (secs === final.secs) {
+    return workout;
+  }
+
+  const segments = [...workout.segments.slice(0, -1), { ...final, secs }];
+  // Keep a trailing step block in line with the timeline so exporters can still use the tree.
+  const last = blocks[blocks.length - 1];
+  const adjustedBlocks =
+    last?.type === 'step' && last.segment.secs === final.secs
+      ? [...blocks.slice(0, -1), step({ ...last.segment, secs })]
+      : blocks;
+  return {
+    ...workout,
+    totalSecs: workout.totalSecs - final.secs + secs,
+    segments,
+    blocks: adjustedBlocks,
+    plannedSecs: planned - final.secs + secs,
+    metrics: computeMetrics({ segments, units: profile.units }, { massKg: profile.user?.massKg }),
+  };
+}
+
+// Rep lengths for a structured set: ladders climb or descend by `step`, pyramids climb to the middle
+// rep and mirror back down (60-90-120-90-60).
+function repLengths(structure: IntervalStructure, count: number, shortest: number, step: number): number[] {
+  return Array.from({ length: Math.max(1, count) }, (_, index) => {
+    const level =
+      structure === 'pyramid'
+        ? Math.min(index, count - 1 - index)
+        : structure === 'ascending'
+          ? index
+          : structure === 'descending'
+            ? count - 1 - index
+            : 0;
+    return shortest + level * step;
+  });
 }
 
 export function makeIntervals(profile: DeviceProfile, opts: IntervalPlanOpts = {}): Workout {
@@ -160,51 +765,282 @@ export function makeIntervals(profile: DeviceProfile, opts: IntervalPlanOpts = {
     warmupMins = 5,
     cooldownMins = 5,
     repeats = 6,
-    hardSecs = 90,
-    easySecs = 90,
     hardIntensity = 0.85,
     easyIntensity = 0.55,
+    hardSpeed,
+    easySpeed,
+    hardZone,
+    easyZone,
+    hardDistance,
+    easyDistance,
+    distanceUnit = 'm',
+    sets = 1,
+    setRestSecs = 180,
+    structure = 'even',
+    repStepSecs = 30,
+    repSecs,
+    hardIntensityStep = 0,
+    recoveryRatio,
+    totalMins,
   } = opts;
 
-  const warmTarget = clamp(min + (max - min) * 0.35, min, max);
-  const warm = quantizeDown(speeds, warmTarget);
-  const hardTarget = clamp(max * hardIntensity, min, max);
-  const easyTarget = clamp(max * easyIntensity, min, max);
-  const hard = quantizeDown(speeds, hardTarget);
-  const easy = quantizeDown(speeds, easyTarget);
+  const warmTarget = roundTarget(warmupSpeed(profile));
+  const warm = planSpeed(profile, speeds, clamp(warmTarget, min, max));
+  const hardTarget = resolveTarget(profile, intensitySpeed(profile, hardIntensity), hardSpeed, hardZone);
+  const easyTarget = resolveTarget(profile, intensitySpeed(profile, easyIntensity), easySpeed, easyZone);
+  const hard = planSpeed(profile, speeds, clamp(hardTarget, min, max));
+  const easy = planSpeed(profile, speeds, clamp(easyTarget, min, max));
 
-  const segments: Segment[] = [];
+  // Distance reps are timed at the speed the device will actually run.
+  const secsFor = (distance: number, speed: number) =>
+    Math.max(1, Math.round(toMetres(distance, distanceUnit) / metresPerSecond(speed, profile.units)));
+  const hardSecs = hardDistance !== undefined ? secsFor(hardDistance, hard) : (opts.hardSecs ?? 90);
+  const easySecs = easyDistance !== undefined ? secsFor(easyDistance, easy) : (opts.easySecs ?? 90);
 
-  if (warmupMins > 0) {
-    segments.push({
-      secs: Math.round(warmupMins * 60),
-      speed: warm,
-      cue: `Warm-up @ ${warm} ${profile.units}`,
-    });
+  const varied =
+    structure !== 'even' || repSecs !== undefined || hardIntensityStep !== 0 || recoveryRatio !== undefined;
+  const byDistance = hardDistance !== undefined || easyDistance !== undefined;
+  if (varied && byDistance) {
+    throw new Error('Pyramids, ladders, rising reps, and scaled recoveries need timed reps, not distances.');
+  }
+  if (totalMins !== undefined && byDistance) {
+    throw new Error('Distance reps cannot be fitted to totalMins; use timed reps.');
+  }
+  if (!Number.isInteger(repeats) || repeats < 1) {
+    throw new Error(`Interval repeats must be a whole number of at least 1, received ${repeats}.`);
   }
 
-  for (let i = 0; i < repeats; i++) {
-    segments.push({
-      secs: hardSecs,
-      speed: hard,
-      cue: `Hard ${i + 1}/${repeats} @ ${hard} ${profile.units}`,
+  // With a `totalMins` target, an unspecified repeat count is solved for, and the warm-up and
+  // cool-down absorb whatever is left so the session lands on the target exactly.
+  const targetSecs = totalMins !== undefined ? Math.max(0, Math.round(totalMins * 60)) : undefined;
+  const setCount = Math.max(1, sets);
+  const restSecs = sets > 1 ? (sets - 1) * Math.max(0, setRestSecs) : 0;
+  let warmupSecs = Math.max(0, Math.round(warmupMins * 60));
+  let cooldownSecs = Math.max(0, Math.round(cooldownMins * 60));
+  let repeatCount = repeats;
+  if (targetSecs !== undefined && !varied && opts.repeats === undefined) {
+    const available = targetSecs - warmupSecs - cooldownSecs - restSecs;
+    repeatCount = Math.max(1, Math.floor(available / (setCount * (hardSecs + easySecs))));
+  }
+
+  const reps: WorkoutBlock[] = [];
+  let repsSecs = repeatCount * (hardSecs + easySecs);
+  if (varied) {
+    const lengths = repSecs ?? repLengths(structure, repeatCount, hardSecs, repStepSecs);
+    if (!lengths.length || lengths.some((secs) => !(secs > 0))) {
+      throw new Error('Interval reps must have positive lengths.');
+    }
+    // Each rep is its own step tagged with its place in the sequence, so cues still read "Hard i/n".
+    const stepDelta = intensitySpeed(profile, hardIntensityStep) - intensitySpeed(profile, 0);
+    repsSecs = 0;
+    lengths.forEach((secs, index) => {
+      const position: BlockPosition[] = [{ kind: 'repeat', index: index + 1, count: lengths.length }];
+      const target = roundTarget(hardTarget + stepDelta * index);
+      const recoverySecs = recoveryRatio !== undefined ? Math.max(1, Math.round(secs * recoveryRatio)) : easySecs;
+      reps.push(
+        step({
+          secs,
+          speed: planSpeed(profile, speeds, clamp(target, min, max)),
+          phase: 'work',
+          position,
+          targetSpeed: target,
+        }),
+        step({ secs: recoverySecs, speed: easy, phase: 'recovery', position, targetSpeed: easyTarget }),
+      );
+      repsSecs += secs + recoverySecs;
     });
-    segments.push({
-      secs: easySecs,
-      speed: easy,
-      cue: `Easy ${i + 1}/${repeats} @ ${easy} ${profile.units}`,
+  } else {
+    reps.push({
+      type: 'repeat',
+      count: repeatCount,
+      blocks: [
+        step({ secs: hardSecs, speed: hard, phase: 'work', targetSpeed: hardTarget }),
+        step({ secs: easySecs, speed: easy, phase: 'recovery', targetSpeed: easyTarget }),
+      ],
     });
   }
 
-  if (cooldownMins > 0) {
-    segments.push({
-      secs: Math.round(cooldownMins * 60),
-      speed: warm,
-      cue: `Cool-down @ ${warm} ${profile.units}`,
+  if (targetSecs !== undefined) {
+    const fixedSecs = setCount * repsSecs + restSecs;
+    if (fixedSecs > targetSecs) {
+      throw new Error(
+        `The intervals alone take ${Math.ceil(fixedSecs / 60)} minutes, more than the ${totalMins}-minute target.`,
+      );
+    }
+    const spare = targetSecs - fixedSecs;
+    const requested = warmupSecs + cooldownSecs;
+    warmupSecs = requested > 0 ? Math.round((spare * warmupSecs) / requested) : 0;
+    cooldownSecs = spare - warmupSecs;
+  }
+
+  const blocks: WorkoutBlock[] = [];
+  if (warmupSecs > 0) {
+    blocks.push(step({ secs: warmupSecs, speed: warm, phase: 'warmup', targetSpeed: warmTarget }));
+  }
+
+  if (sets > 1) {
+    blocks.push({
+      type: 'set',
+      count: sets,
+      blocks: reps,
+      rest:
+        setRestSecs > 0
+          ? { secs: setRestSecs, speed: warm, phase: 'recovery', label: 'Set rest', targetSpeed: warmTarget }
+          : undefined,
     });
+  } else {
+    blocks.push(...reps);
+  }
+
+  if (cooldownSecs > 0) {
+    blocks.push(step({ secs: cooldownSecs, speed: warm, phase: 'cooldown', targetSpeed: warmTarget }));
+  }
+
+  if (byDistance) {
+    const metresAt = (speed: number, secs: number) => metresPerSecond(speed, profile.units) * secs;
+    const hardMetres = hardDistance !== undefined ? toMetres(hardDistance, distanceUnit) : metresAt(hard, hardSecs);
+    const easyMetres = easyDistance !== undefined ? toMetres(easyDistance, distanceUnit) : metresAt(easy, easySecs);
+    const goalMetres =
+      metresAt(warm, Math.max(0, Math.round(warmupMins * 60))) +
+      Math.max(1, sets) * repeatCount * (hardMetres + easyMetres) +
+      (sets > 1 ? (sets - 1) * metresAt(warm, Math.max(0, setRestSecs)) : 0) +
+      metresAt(warm, Math.max(0, Math.round(cooldownMins * 60)));
+    return finalizeToDistance(profile, name, blocks, goalMetres);
   }
 
-  return finalizeWorkout(profile, name, segments);
+  const plannedSecs =
+    targetSecs ??
+    Math.max(0, warmupMins) * 60 +
+      Math.max(1, sets) * repsSecs +
+      (sets > 1 ? (sets - 1) * Math.max(0, setRestSecs) : 0) +
+      Math.max(0, cooldownMins) * 60;
+  return finalizeWorkout(profile, name, blocks, plannedSecs);
+}
+
+// Whether two duty-cycle pieces were cut from the same planned segment.
+function sameStep(a: Segment, b: Segment): boolean {
+  return (
+    a.phase === b.phase &&
+    a.label === b.label &&
+    a.cue === b.cue &&
+    a.targetSpeed === b.targetSpeed &&
+    JSON.stringify(a.position) === JSON.stringify(b.position)
+  );
+}
+
+/**
+ * Recovers the planned timeline behind a finished workout's segments: inserted ramp steps are folded
+ * back into the segment they were taken from, segments split by duty-cycle cool-offs are joined up
+ * again, and generated cues and device annotations are cleared so the safety pass can render them
+ * again. Explicit cues are kept.
+ */
+export function plannedSegments(workout: Workout): Segment[] {
+  const planned: Segment[] = [];
+  let rampSecs = 0;
+  let split = false;
+  for (const segment of workout.segments) {
+    const last = planned[planned.length - 1];
+    if (isCoolOff(segment) && split && last) {
+      last.secs += segment.secs;
+      continue;
+    }
+    if (segment.phase === 'ramp' || isCoolOff(segment)) {
+      rampSecs += segment.secs;
+      continue;
+    }
+    const generated = segment.cue === renderCue({ ...segment, cue: undefined }, workout.units);
+    const cue = generated ? undefined : segment.cue;
+    const piece = Boolean(segment.safety?.dutyCycle);
+    if (piece && split && last && sameStep(last, { ...segment, cue })) {
+      last.secs += rampSecs + segment.secs;
+      rampSecs = 0;
+      continue;
+    }
+    planned.push({
+      ...segment,
+      secs: segment.secs + rampSecs,
+      cue,
+      pace: undefined,
+      zone: undefined,
+      hr: undefined,
+      safety: segment.safety ? { ...segment.safety, dutyCycle: undefined } : undefined,
+    });
+    rampSecs = 0;
+    split = piece;
+  }
+  return planned;
+}
+
+/**
+ * Stretches or compresses a finished workout to `secs`, scaling every segment in proportion. Ramp
+ * steps are planned afresh rather than scaled, no segment is squeezed below `minSegmentSec` (or its
+ * own length, if shorter), and the timeline goes through the profile's safety rules again. The block
+ * tree is replaced by the fitted timeline.
+ */
+export function fitWorkoutToDuration(profile: DeviceProfile, workout: Workout, secs: number): Workout {
+  const targetSecs = Math.max(0, Math.round(secs));
+  const planned = plannedSegments(workout);
+  if (!planned.length) {
+    throw new Error('Cannot fit an empty workout to a duration.');
+  }
+  return finalizeWorkout(profile, workout.name, scaleSegments(profile, planned, targetSecs).map(step), targetSecs);
+}
+
+// Scales planned segments in proportion to `targetSecs` whole seconds. Segments that would fall below
+// `minSegmentSec` (or their own length, if shorter) are pinned there and the rest re-scaled.
+function scaleSegments(profile: DeviceProfile, planned: Segment[], targetSecs: number): Segment[] {
+  const shortest = planned.map((segment) => Math.min(segment.secs, Math.max(1, profile.minSegmentSec ?? 1)));
+  const floorSecs = shortest.reduce((sum, value) => sum + value, 0);
+  if (floorSecs > targetSecs) {
+    throw new Error(`This workout cannot be shorter than ${floorSecs}s without breaking minSegmentSec.`);
+  }
+
+  const pinned = new Set<number>();
+  let fitted: number[] = [];
+  for (;;) {
+    const pinnedSecs = [...pinned].reduce((sum, index) => sum + shortest[index], 0);
+    const scaled = allocateSecs(
+      targetSecs - pinnedSecs,
+      planned.map((segment, index) => (pinned.has(index) ? 0 : segment.secs)),
+    );
+    fitted = scaled.map((value, index) => (pinned.has(index) ? shortest[index] : value));
+    const short = fitted.flatMap((value, index) => (!pinned.has(index) && value < shortest[index] ? [index] : []));
+    if (!short.length) {
+      break;
+    }
+    short.forEach((index) => pinned.add(index));
+  }
+
+  return planned.map((segment, index) => ({ ...segment, secs: fitted[index] }));
+}
+
+type BookendOpts = Pick<SteadyOpts, 'warmupMins' | 'cooldownMins' | 'warmupIntensity' | 'cooldownIntensity'>;
+
+/**
+ * Warm-up and cool-down for a session of `totalSecs`. Explicit lengths are trimmed so the two never
+ * exceed the session; intensities default to the profile's warm-up speed.
+ */
+function bookends(profile: DeviceProfile, speeds: number[], totalSecs: number, opts: BookendOpts) {
+  const min = speeds[0];
+  const max = speeds[speeds.length - 1];
+  const fallbackSecs = Math.min(totalSecs / 2, 5 * 60);
+  const lengthSecs = (mins: number | undefined) =>
+    mins !== undefined ? Math.max(0, Math.round(mins * 60)) : fallbackSecs;
+  const warmSecs = Math.min(totalSecs, lengthSecs(opts.warmupMins));
+  const coolSecs = Math.min(totalSecs - warmSecs, lengthSecs(opts.cooldownMins));
+
+  const targetFor = (fraction: number | undefined) =>
+    roundTarget(fraction !== undefined ? intensitySpeed(profile, fraction) : warmupSpeed(profile));
+  const warmTarget = targetFor(opts.warmupIntensity);
+  const coolTarget = targetFor(opts.cooldownIntensity ?? opts.warmupIntensity);
+  return {
+    warmSecs,
+    coolSecs,
+    warmTarget,
+    coolTarget,
+    warm: planSpeed(profile, speeds, clamp(warmTarget, min, max)),
+    cool: planSpeed(profile, speeds, clamp(coolTarget, min, max)),
+  };
 }
 
 export function makeSteady(profile: DeviceProfile, opts: SteadyOpts = {}): Workout {
@@ -212,52 +1048,139 @@ export function makeSteady(profile: DeviceProfile, opts: SteadyOpts = {}): Worko
   const max = speeds[speeds.length - 1];
   const min = speeds[0];
 
-  const { name = 'Steady', totalMins = 30, intensity = 0.65, addStrides = true } = opts;
+  const {
+    name = 'Steady',
+    totalMins = 30,
+    intensity = 0.65,
+    speed,
+    zone,
+    addStrides = true,
+    strides = 4,
+    strideSecs = 20,
+    strideFloatSecs = 40,
+    strideIntensity = 0.9,
+  } = opts;
 
-  const warmTarget = clamp(min + (max - min) * 0.35, min, max);
-  const warm = quantizeDown(speeds, warmTarget);
-  const cruiseTarget = clamp(max * intensity, min, max);
-  const cruise = quantizeDown(speeds, cruiseTarget);
+  const cruiseTarget = resolveTarget(profile, intensitySpeed(profile, intensity), speed, zone);
+  const cruise = planSpeed(profile, speeds, clamp(cruiseTarget, min, max));
 
   const totalSecs = Math.max(0, Math.round(totalMins * 60));
-  const warmSecs = Math.min(totalSecs / 2, 5 * 60);
-  const coolSecs = warmSecs;
+  const { warmSecs, coolSecs, warm, warmTarget, cool, coolTarget } = bookends(profile, speeds, totalSecs, opts);
   const cruiseSecs = Math.max(0, totalSecs - warmSecs - coolSecs);
 
-  const segments: Segment[] = [
-    { secs: Math.round(warmSecs), speed: warm, cue: `Warm-up @ ${warm} ${profile.units}` },
-    { secs: Math.round(cruiseSecs), speed: cruise, cue: `Cruise @ ${cruise} ${profile.units}` },
-    { secs: Math.round(coolSecs), speed: warm, cue: `Cool-down @ ${warm} ${profile.units}` },
-  ];
+  const cruiseSeg: Segment = {
+    secs: Math.round(cruiseSecs),
+    speed: cruise,
+    phase: 'work',
+    label: 'Cruise',
+    targetSpeed: cruiseTarget,
+  };
+  const blocks: WorkoutBlock[] = [];
+  if (warmSecs > 0) {
+    blocks.push(step({ secs: Math.round(warmSecs), speed: warm, phase: 'warmup', targetSpeed: warmTarget }));
+  }
 
-  if (addStrides && cruiseSecs >= 4 * (20 + 40) && speeds.length >= 3) {
-    const strideTarget = clamp(max * 0.9, min, max);
-    const stride = quantizeDown(speeds, strideTarget);
-    const cruiseSeg = segments[1];
-    const baseCue = cruiseSeg.cue;
-    const preCruise = Math.max(0, cruiseSeg.secs - (4 * 20 + 4 * 40));
+  const strideCount = Math.max(0, Math.round(strides));
+  const strideBlockSecs = strideCount * (strideSecs + strideFloatSecs);
+  if (addStrides && strideCount > 0 && cruiseSecs >= strideBlockSecs && speeds.length >= 3) {
+    const strideTarget = roundTarget(intensitySpeed(profile, strideIntensity));
+    const stride = planSpeed(profile, speeds, clamp(strideTarget, min, max));
+    const preCruise = Math.max(0, cruiseSeg.secs - strideBlockSecs);
 
-    const rebuilt: Segment[] = [segments[0]];
     if (preCruise > 0) {
-      rebuilt.push({ secs: preCruise, speed: cruiseSeg.speed, cue: baseCue });
-    }
-    for (let i = 0; i < 4; i++) {
-      rebuilt.push({
-        secs: 20,
-        speed: stride,
-        cue: `Stride ${i + 1}/4 @ ${stride} ${profile.units}`,
-      });
-      rebuilt.push({
-        secs: 40,
-        speed: cruiseSeg.speed,
-        cue: `Easy between strides @ ${cruiseSeg.speed} ${profile.units}`,
-      });
+      blocks.push(step({ ...cruiseSeg, secs: preCruise }));
     }
-    rebuilt.push(segments[2]);
-    return finalizeWorkout(profile, name, rebuilt);
+    blocks.push({
+      type: 'repeat',
+      count: strideCount,
+      blocks: [
+        step({ secs: strideSecs, speed: stride, phase: 'stride', targetSpeed: strideTarget }),
+        step({
+          secs: strideFloatSecs,
+          speed: cruiseSeg.speed,
+          phase: 'recovery',
+          label: 'Easy between strides',
+          targetSpeed: cruiseTarget,
+        }),
+      ],
+    });
+  } else {
+    blocks.push(step(cruiseSeg));
+  }
+
+  if (coolSecs > 0) {
+    blocks.push(step({ secs: Math.round(coolSecs), speed: cool, phase: 'cooldown', targetSpeed: coolTarget }));
+  }
+  return finalizeWorkout(profile, name, blocks, Math.max(0, totalMins * 60));
+}
+
+export function makeDistance(profile: DeviceProfile, opts: DistanceOpts = {}): Workout {
+  const speeds = sortSpeeds(profile.speeds);
+  const max = speeds[speeds.length - 1];
+  const min = speeds[0];
+
+  const {
+    distance = 5,
+    distanceUnit = 'km',
+    name = `${distance} ${distanceUnit}`,
+    warmupMins = 5,
+    cooldownMins = 5,
+    intensity = 0.65,
+    speed,
+    zone,
+  } = opts;
+
+  const warmTarget = roundTarget(warmupSpeed(profile));
+  const warm = planSpeed(profile, speeds, clamp(warmTarget, min, max));
+  const cruiseTarget = resolveTarget(profile, intensitySpeed(profile, intensity), speed, zone);
+  const cruise = planSpeed(profile, speeds, clamp(cruiseTarget, min, max));
+  if (!(warm > 0 && cruise > 0)) {
+    throw new Error('Distance workouts need positive device speeds.');
+  }
+
+  // The warm-up and cool-down are timed but count towards the goal, each capped at a quarter of it.
+  const goalMetres = toMetres(Math.max(0, distance), distanceUnit);
+  const warmSpeed = metresPerSecond(warm, profile.units);
+  const cruiseSpeed = metresPerSecond(cruise, profile.units);
+  const easySecs = (mins: number) => Math.round(Math.min(Math.max(0, mins) * 60, goalMetres / 4 / warmSpeed));
+  const warmSecs = easySecs(warmupMins);
+  const coolSecs = easySecs(cooldownMins);
+  const cruiseSecs = Math.round((goalMetres - (warmSecs + coolSecs) * warmSpeed) / cruiseSpeed);
+
+  const blocks: WorkoutBlock[] = [];
+  if (warmSecs > 0) {
+    blocks.push(step({ secs: warmSecs, speed: warm, phase: 'warmup', targetSpeed: warmTarget }));
+  }
+  blocks.push(
+    step({ secs: Math.max(1, cruiseSecs), speed: cruise, phase: 'work', label: 'Cruise', targetSpeed: cruiseTarget }),
+  );
+  if (coolSecs > 0) {
+    blocks.push(step({ secs: coolSecs, speed: warm, phase: 'cooldown', targetSpeed: warmTarget }));
   }
 
-  return finalizeWorkout(profile, name, segments);
+  return finalizeToDistance(profile, name, blocks, goalMetres);
+}
+
+/**
+ * Splits `total` whole seconds in proportion to `weights`. Leftover seconds go to the largest
+ * fractional shares (earliest first on ties), so the parts always sum to `total` exactly.
+ */
+function allocateSecs(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  const shares = weights.map((weight) => (sum > 0 ? (total * weight) / sum : 0));
+  const secs = shares.map(Math.floor);
+  let leftover = total - secs.reduce((acc, value) => acc + value, 0);
+  const order = shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of order) {
+    if (leftover <= 0) {
+      break;
+    }
+    secs[index] += 1;
+    leftover -= 1;
+  }
+  return secs;
 }
 
 export function makeProgression(profile: DeviceProfile, opts: ProgressionOpts = {}): Workout {
@@ -265,68 +1188,224 @@ export function makeProgression(profile: DeviceProfile, opts: ProgressionOpts =
   const max = speeds[speeds.length - 1];
   const min = speeds[0];
 
-  const { name = 'Progression', totalMins = 30, steps = 4, topIntensity = 0.8 } = opts;
+  const {
+    name = 'Progression',
+    totalMins = 30,
+    steps = 4,
+    topIntensity = 0.8,
+    topSpeed,
+    topZone,
+    shape = 'ascending',
+    holdMins = 5,
+    weighting = 'even',
+  } = opts;
+
+  const totalSecs = Math.max(0, Math.round(totalMins * 60));
+  const bounds = bookends(profile, speeds, totalSecs, opts);
+  const { warm, warmTarget, cool, coolTarget } = bounds;
+  // Whole-second bookends leave the steps to absorb the rest, so the session sums to `totalSecs` exactly.
+  const warmSecs = Math.floor(bounds.warmSecs);
+  const coolSecs = Math.floor(bounds.coolSecs);
+  const topTarget = resolveTarget(profile, intensitySpeed(profile, topIntensity), topSpeed, topZone);
+  const top = planSpeed(profile, speeds, clamp(topTarget, warm, max));
 
-  const warmTarget = clamp(min + (max - min) * 0.35, min, max);
-  const warm = quantizeDown(speeds, warmTarget);
-  const topTarget = clamp(max * topIntensity, warm, max);
-  const top = quantizeDown(speeds, topTarget);
+  const stepCount = Math.max(1, Math.round(steps));
+  // Speed levels of the ladder: a pyramid climbs to its middle step, and a hold climbs to the level
+  // below the top so the hold itself is the top step.
+  const levels = Array.from({ length: stepCount }, (_, index) => {
+    switch (shape) {
+      case 'descending':
+        return stepCount - 1 - index;
+      case 'pyramid':
+        return Math.min(index, stepCount - 1 - index);
+      default:
+        return index;
+    }
+  });
+  const levelCount =
+    shape === 'pyramid' ? Math.floor((stepCount - 1) / 2) + 1 : shape === 'hold' ? stepCount + 1 : stepCount;
 
-  const stepCount = Math.max(1, steps);
+  // Dithered ladders climb in even steps, leaving the safety pass to blend neighbouring speeds.
+  const dither = profile.quantize === 'dither';
   const usableSpeeds = speeds.filter((speed) => speed >= warm && speed <= top);
-  const ladder: number[] = [];
-  for (let i = 0; i < stepCount; i++) {
+  const levelSpeed = (level: number) => {
+    if (dither) {
+      return levelCount === 1 ? top : roundTarget(warm + ((top - warm) * level) / (levelCount - 1));
+    }
     if (usableSpeeds.length === 0) {
-      ladder.push(warm);
-      continue;
+      return warm;
     }
     const idx =
-      stepCount === 1 ? usableSpeeds.length - 1 : Math.round((i / (stepCount - 1)) * (usableSpeeds.length - 1));
-    ladder.push(usableSpeeds[idx]);
-  }
+      levelCount === 1 ? usableSpeeds.length - 1 : Math.round((level / (levelCount - 1)) * (usableSpeeds.length - 1));
+    return usableSpeeds[idx];
+  };
 
-  const totalSecs = Math.max(0, Math.round(totalMins * 60));
-  const warmSecs = Math.min(totalSecs / 2, 5 * 60);
-  const coolSecs = warmSecs;
   const workSecs = Math.max(0, totalSecs - warmSecs - coolSecs);
-  const baseStepSecs = stepCount ? Math.floor(workSecs / stepCount) : 0;
-  let remainder = workSecs - baseStepSecs * stepCount;
-
-  const segments: Segment[] = [
-    { secs: Math.round(warmSecs), speed: warm, cue: `Warm-up @ ${warm} ${profile.units}` },
-  ];
-
-  ladder.forEach((speed, index) => {
-    let secs = baseStepSecs;
-    if (remainder > 0) {
-      secs += 1;
-      remainder -= 1;
-    }
+  // The hold never takes more than half the work time, so the climb keeps usable steps.
+  const holdSecs = shape === 'hold' ? Math.min(Math.floor(workSecs / 2), Math.max(0, Math.round(holdMins * 60))) : 0;
+  const stepSecs = allocateSecs(
+    workSecs - holdSecs,
+    levels.map((level) => (weighting === 'top' ? level + 1 : 1)),
+  );
+
+  const segments: Segment[] = [];
+  if (warmSecs > 0) {
+    segments.push({ secs: warmSecs, speed: warm, phase: 'warmup', targetSpeed: warmTarget });
+  }
+
+  // Very short sessions can leave steps with no time at all; those are left out and the rest renumbered.
+  const climb = levels.map((level, index) => ({ level, secs: stepSecs[index] })).filter(({ secs }) => secs > 0);
+  climb.forEach(({ level, secs }, index) => {
+    const speed = levelSpeed(level);
     segments.push({
       secs,
       speed,
-      cue: `Step ${index + 1}/${stepCount} @ ${speed} ${profile.units}`,
+      phase: 'step',
+      position: [{ kind: 'repeat', index: index + 1, count: climb.length }],
+      targetSpeed: speed,
     });
   });
 
-  segments.push({ secs: Math.round(coolSecs), speed: warm, cue: `Cool-down @ ${warm} ${profile.units}` });
+  if (holdSecs > 0) {
+    segments.push({ secs: holdSecs, speed: top, phase: 'work', label: 'Hold', targetSpeed: topTarget });
+  }
+
+  if (coolSecs > 0) {
+    segments.push({ secs: coolSecs, speed: cool, phase: 'cooldown', targetSpeed: coolTarget });
+  }
+
+  return finalizeWorkout(profile, name, segments.map(step), Math.max(0, totalMins * 60));
+}
+
+export function makeHills(profile: DeviceProfile, opts: HillOpts = {}): Workout {
+  const speeds = sortSpeeds(profile.speeds);
+  const max = speeds[speeds.length - 1];
+  const min = speeds[0];
+  const inclines = profile.inclines?.length ? sortSpeeds(profile.inclines) : [];
+  if (!inclines.length) {
+    throw new Error('Device profile inclines cannot be empty for hill workouts.');
+  }
+  const flat = inclines[0];
+  const steepest = inclines[inclines.length - 1];
+
+  const {
+    name = 'Hills',
+    pattern = 'rolling',
+    warmupMins = 5,
+    cooldownMins = 5,
+    repeats = 6,
+    hillSecs = 120,
+    recoverySecs = 90,
+    intensity = 0.6,
+    recoveryIntensity = 0.5,
+    speed,
+    recoverySpeed,
+    zone,
+    recoveryZone,
+    topIncline = 1,
+  } = opts;
+
+  const warmTarget = roundTarget(warmupSpeed(profile));
+  const warm = planSpeed(profile, speeds, clamp(warmTarget, min, max));
+  const climbTarget = resolveTarget(profile, intensitySpeed(profile, intensity), speed, zone);
+  const climb = planSpeed(profile, speeds, clamp(climbTarget, min, max));
+  const recoverTarget = resolveTarget(profile, intensitySpeed(profile, recoveryIntensity), recoverySpeed, recoveryZone);
+  const recover = planSpeed(profile, speeds, clamp(recoverTarget, min, max));
+  // Climbs never round down to the flat grade, so the lowest ladder rung is still a hill.
+  const lowestClimb = inclines.find((incline) => incline > flat) ?? flat;
+  const gradeFor = (fraction: number) =>
+    quantizeDown(inclines, clamp(flat + (steepest - flat) * fraction * topIncline, lowestClimb, steepest));
+  const blocks: WorkoutBlock[] = [];
+
+  if (warmupMins > 0) {
+    blocks.push(
+      step({ secs: Math.round(warmupMins * 60), speed: warm, incline: flat, phase: 'warmup', targetSpeed: warmTarget }),
+    );
+  }
+
+  const count = Math.max(1, repeats);
+  if (pattern === 'repeats') {
+    blocks.push({
+      type: 'repeat',
+      count,
+      blocks: [
+        step({
+          secs: hillSecs,
+          speed: climb,
+          incline: gradeFor(1),
+          phase: 'work',
+          label: 'Hill',
+          targetSpeed: climbTarget,
+        }),
+        step({
+          secs: recoverySecs,
+          speed: recover,
+          incline: flat,
+          phase: 'recovery',
+          label: 'Recover',
+          targetSpeed: recoverTarget,
+        }),
+      ],
+    });
+  } else {
+    // Rolling hills and ladders change grade every rep, so each rep is its own step tagged with
+    // its place in the sequence rather than a repeat of identical blocks.
+    for (let i = 0; i < count; i++) {
+      const position: BlockPosition[] = [{ kind: 'repeat', index: i + 1, count }];
+      const climbSegment: Segment = { secs: hillSecs, speed: climb, phase: 'work', position, targetSpeed: climbTarget };
+      if (pattern === 'ladder') {
+        const grade = gradeFor(count === 1 ? 1 : (i + 1) / count);
+        blocks.push(step({ ...climbSegment, incline: grade, label: 'Climb' }));
+      } else {
+        // Rolling hills swell towards the steepest grade mid-session and ease off again.
+        const swell = count === 1 ? 1 : 1 - Math.abs((2 * i) / (count - 1) - 1);
+        const grade = gradeFor(0.5 + 0.5 * swell);
+        blocks.push(step({ ...climbSegment, incline: grade, label: 'Hill' }));
+        blocks.push(step({ ...climbSegment, secs: recoverySecs, incline: flat, phase: 'recovery', label: 'Flat' }));
+      }
+    }
+  }
+
+  if (cooldownMins > 0) {
+    blocks.push(
+      step({
+        secs: Math.round(cooldownMins * 60),
+        speed: warm,
+        incline: flat,
+        phase: 'cooldown',
+        targetSpeed: warmTarget,
+      }),
+    );
+  }
 
-  return finalizeWorkout(profile, name, segments);
+  const repSecs = pattern === 'ladder' ? hillSecs : hillSecs + recoverySecs;
+  const plannedSecs = Math.max(0, warmupMins) * 60 + count * repSecs + Math.max(0, cooldownMins) * 60;
+  return finalizeWorkout(profile, name, blocks, plannedSecs);
 }
 
 export function describe(workout: Workout): string {
   let elapsed = 0;
   const pad = (value: number) => String(value).padStart(2, '0');
-  return workout.segments
-    .map((segment) => {
-      const start = elapsed;
-      elapsed += segment.secs;
-      const startMin = Math.floor(start / 60);
-      const startSec = start % 60;
-      const endMin = Math.floor(elapsed / 60);
-      const endSec = elapsed % 60;
-      const cue = segment.cue ? `  ${segment.cue}` : '';
-      return `${pad(startMin)}:${pad(startSec)}–${pad(endMin)}:${pad(endSec)}  @ ${segment.speed} ${workout.units}${cue}`;
-    })
-    .join('\n');
+  const lines = workout.segments.map((segment) => {
+    const start = elapsed;
+    elapsed += segment.secs;
+    const startMin = Math.floor(start / 60);
+    const startSec = start % 60;
+    const endMin = Math.floor(elapsed / 60);
+    const endSec = elapsed % 60;
+    const cue = segment.cue ? `  ${segment.cue}` : '';
+    const zone = segment.zone
+      ? `${formatZone(segment.zone)}${segment.hr ? ` ${segment.hr.low}–${segment.hr.high} bpm` : ''}`
+      : undefined;
+    const details = [segment.pace, zone].filter(Boolean).join(', ');
+    const pace = details ? ` (${details})` : '';
+    return `${pad(startMin)}:${pad(startSec)}–${pad(endMin)}:${pad(endSec)}  @ ${segment.speed} ${workout.units}${pace}${cue}`;
+  });
+
+  const metrics = workout.metrics ?? computeMetrics(workout);
+  const energy = metrics.kcal !== undefined ? `, ~${Math.round(metrics.kcal)} kcal` : '';
+  lines.push(
+    `Total ${pad(Math.floor(elapsed / 60))}:${pad(elapsed % 60)}, ${metrics.distance.toFixed(2)} ${metrics.distanceUnit}${energy}`,
+  );
+  return lines.join('\n');
 }
@@ -1,14 +1,132 @@
 export {
+  type BlockPosition,
   type DeviceProfile,
+  type DistanceOpts,
+  type HillOpts,
+  type HillPattern,
+  type IntensityReference,
   type IntervalPlanOpts,
+  type IntervalStructure,
   type ProgressionOpts,
+  type ProgressionShape,
+  type QuantizeStrategy,
+  type RampPolicy,
+  type RepeatBlock,
   type Segment,
+  type SegmentPhase,
+  type SegmentSafety,
+  type SetBlock,
   type SteadyOpts,
+  type StepBlock,
   type Units,
   type Workout,
+  type WorkoutBlock,
   describe,
+  fitWorkoutToDuration,
+  flatten,
+  intensitySpeed,
+  makeDistance,
+  makeHills,
   makeIntervals,
   makeProgression,
   makeSteady,
+  quantize,
   quantizeDown,
+  renderCue,
+  speedIntensity,
+  warmupSpeed,
 } from './generator.js';
+export {
+  type Pace,
+  type PaceUnit,
+  convertSpeed,
+  formatPace,
+  paceToSpeed,
+  paceUnitFor,
+  parsePace,
+  speedToPace,
+} from './pace.js';
+export {
+  type Distance,
+  type DistanceUnit,
+  type MetricsOpts,
+  type SegmentMetrics,
+  type WorkoutMetrics,
+  acsmVo2,
+  computeMetrics,
+  kcalPerMinute,
+  metresPerSecond,
+  parseDistance,
+  toMetres,
+} from './metrics.js';
+export {
+  type HeartRateRange,
+  type HrZone,
+  type UserProfile,
+  HR_ZONES,
+  formatZone,
+  isHrZone,
+  zoneForSpeed,
+  zoneHeartRate,
+  zoneSpeed,
+} from './zones.js';
+export {
+  type CompileSpecOpts,
+  type SpecIntensityName,
+  type SpecNode,
+  type SpecTarget,
+  WorkoutSpecError,
+  compileWorkoutSpec,
+  parseWorkoutSpec,
+} from './spec.js';
+export { type DiagnosticCode, type DiagnosticSeverity, type WorkoutDiagnostic, analyzeWorkout } from './analyze.js';
+export {
+  type FitDurationType,
+  type FitEncodeOpts,
+  type FitIntensity,
+  type FitWorkoutFile,
+  type FitWorkoutStep,
+  decodeFitWorkout,
+  encodeFitWorkout,
+} from './formats/fit.js';
+export { type ZwoEncodeOpts, encodeZwoWorkout } from './formats/zwo.js';
+export { type ImportFormat, type ImportWorkoutOpts, detectImportFormat, importWorkout } from './formats/import.js';
+export { type CalendarEntry, type IcsEncodeOpts, encodeIcsCalendar } from './formats/ics.js';
+export {
+  type PlanGoal,
+  type PlanOpts,
+  type PlanWeek,
+  type PlanWeekKind,
+  type PlannedWorkout,
+  type PlanWorkoutKind,
+  type TrainingPlan,
+  type Weekday,
+  WEEKDAYS,
+  formatPlanDate,
+  formatPlanSummary,
+  makePlan,
+  parsePlanDate,
+  parseWeekdays,
+  planWeeks,
+} from './plan.js';
+export {
+  type AdaptiveAction,
+  type AdaptiveProposal,
+  type AdaptiveSession,
+  type SessionFeedback,
+  type SessionRecord,
+  makeSessionWorkout,
+  proposeNextSession,
+  recordFeedback,
+  sessionHistorySchema,
+  sessionRecordSchema,
+} from './adapt.js';
+export {
+  type WorkoutTemplate,
+  BUILTIN_TEMPLATES,
+  findTemplate,
+  mergeTemplates,
+  renderTemplate,
+  resolveTemplateSpec,
+} from './templates.js';
+export { retarget } from './retarget.js';
@@ -0,0 +1,105 @@
+import type { Segment, Units } from './generator.js';
+import { type PaceUnit, paceUnitFor } from './pace.js';
+
+export type SegmentMetrics = {
+  /** Distance in the workout's distance unit (miles for mph, kilometres for kph). */
+  distance: number;
+  cumulativeDistance: number;
+  kcal?: number;
+  cumulativeKcal?: number;
+};
+
+export type WorkoutMetrics = {
+  distanceUnit: PaceUnit;
+  distance: number;
+  kcal?: number;
+  segments: SegmentMetrics[];
+};
+
+export type MetricsOpts = {
+  massKg?: number;
+};
+
+export type DistanceUnit = 'm' | 'km' | 'mi';
+
+export type Distance = {
+  value: number;
+  unit: DistanceUnit;
+};
+
+const METRES_PER_UNIT: Record<Units, number> = { mph: 1609.344, kph: 1000 };
+const METRES_PER_DISTANCE_UNIT: Record<DistanceUnit, number> = { m: 1, km: 1000, mi: 1609.344 };
+
+export function toMetres(value: number, unit: DistanceUnit): number {
+  return value * METRES_PER_DISTANCE_UNIT[unit];
+}
+
+export function metresPerSecond(speed: number, units: Units): number {
+  return (speed * METRES_PER_UNIT[units]) / 3600;
+}
+
+/** Parses distances such as `5km`, `400 m`, or `3.1mi`. */
+export function parseDistance(text: string): Distance {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(m|km|mi)\s*$/i.exec(text);
+  const value = match ? Number(match[1]) : 0;
+  if (!match || value <= 0) {
+    throw new Error(`Invalid distance "${text}" (expected a number followed by m, km, or mi).`);
+  }
+  return { value, unit: match[2].toLowerCase() as DistanceUnit };
+}
+
+// ACSM's walking equation is validated up to 100 m/min and its running equation from 134 m/min;
+// treadmill walkers rarely jog below 5 mph, so the walking equation covers the gap.
+const RUNNING_FROM_METRES_PER_MIN = 134;
+
+/**
+ * Gross oxygen cost (ml/kg/min) from the ACSM metabolic equations. Downhill grades are treated
+ * as flat, since the equations only hold for level and uphill work.
+ */
+export function acsmVo2(metresPerMin: number, grade = 0): number {
+  const uphill = Math.max(0, grade);
+  if (metresPerMin >= RUNNING_FROM_METRES_PER_MIN) {
+    return 0.2 * metresPerMin + 0.9 * metresPerMin * uphill + 3.5;
+  }
+  return 0.1 * metresPerMin + 1.8 * metresPerMin * uphill + 3.5;
+}
+
+/** Energy cost in kcal/min, at roughly 5 kcal per litre of oxygen. */
+export function kcalPerMinute(speed: number, units: Units, massKg: number, inclinePercent = 0): number {
+  const metresPerMin = (speed * METRES_PER_UNIT[units]) / 60;
+  return (acsmVo2(metresPerMin, inclinePercent / 100) * massKg * 5) / 1000;
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Per-segment and cumulative distance, plus energy estimates when a body mass is known.
+ * Distances are rounded to three decimals and kcal to one; totals are summed before rounding.
+ */
+export function computeMetrics(workout: { segments: Segment[]; units: Units }, opts: MetricsOpts = {}): WorkoutMetrics {
+  const { massKg } = opts;
+  let distance = 0;
+  let kcal = 0;
+  const segments = workout.segments.map((segment): SegmentMetrics => {
+    const segmentDistance = (segment.speed * segment.secs) / 3600;
+    distance += segmentDistance;
+    if (!massKg) {
+      return { distance: round(segmentDistance, 3), cumulativeDistance: round(distance, 3) };
+    }
+    const segmentKcal = (kcalPerMinute(segment.speed, workout.units, massKg, segment.incline) * segment.secs) / 60;
+    kcal += segmentKcal;
+    return {
+      distance: round(segmentDistance, 3),
+      cumulativeDistance: round(distance, 3),
+      kcal: round(segmentKcal, 1),
+      cumulativeKcal: round(kcal, 1),
+    };
+  });
+
+  return {
+    distanceUnit: paceUnitFor(workout.units),
+    distance: round(distance, 3),
+    ...(massKg ? { kcal: round(kcal, 1) } : {}),
+    segments,
+  };
+}
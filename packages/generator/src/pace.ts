@@ -0,0 +1,62 @@
+import type { Units } from './generator.js';
+
+export type PaceUnit = 'mi' | 'km';
+
+export type Pace = {
+  /** Seconds per `unit`. */
+  secs: number;
+  unit: PaceUnit;
+};
+
+const KM_PER_MILE = 1.609344;
+
+export function paceUnitFor(units: Units): PaceUnit {
+  return units === 'mph' ? 'mi' : 'km';
+}
+
+/**
+ * Parses paces such as `12:00/mi`, `7:30 min/km`, or `1:05:00/mi`. Without a unit suffix the
+ * pace is read per `defaultUnit`.
+ */
+export function parsePace(text: string, defaultUnit: PaceUnit = 'mi'): Pace {
+  const match = /^\s*(\d+(?::[0-5]\d){1,2})\s*(?:(?:min)?\s*\/\s*(mi|mile|km))?\s*$/i.exec(text);
+  if (!match) {
+    throw new Error(`Invalid pace "${text}" (expected mm:ss/mi or mm:ss/km).`);
+  }
+  const secs = match[1].split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  if (secs <= 0) {
+    throw new Error(`Invalid pace "${text}" (pace must be longer than zero).`);
+  }
+  const unit = match[2] ? (match[2].toLowerCase() === 'km' ? 'km' : 'mi') : defaultUnit;
+  return { secs, unit };
+}
+
+/** Converts a pace to a speed in the given device units. */
+export function paceToSpeed(pace: Pace, units: Units): number {
+  const perHour = 3600 / pace.secs;
+  if (pace.unit === paceUnitFor(units)) {
+    return perHour;
+  }
+  return pace.unit === 'mi' ? perHour * KM_PER_MILE : perHour / KM_PER_MILE;
+}
+
+/** Converts a speed between mph and kph. */
+export function convertSpeed(speed: number, from: Units, to: Units): number {
+  if (from === to) {
+    return speed;
+  }
+  return from === 'mph' ? speed * KM_PER_MILE : speed / KM_PER_MILE;
+}
+
+/** Returns whole seconds per mile (mph) or per kilometre (kph) at the given speed. */
+export function speedToPace(speed: number, units: Units): Pace {
+  return { secs: Math.round(3600 / speed), unit: paceUnitFor(units) };
+}
+
+export function formatPace(pace: Pace): string {
+  const hours = Math.floor(pace.secs / 3600);
+  const minutes = Math.floor((pace.secs % 3600) / 60);
+  const seconds = String(pace.secs % 60).padStart(2, '0');
+  const clock = hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+  return `${clock}/${pace.unit}`;
+}
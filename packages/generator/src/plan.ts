@@ -0,0 +1,238 @@
+import { type DeviceProfile, type Workout, makeIntervals, makeProgression, makeSteady } from './generator.js';
+import { computeMetrics } from './metrics.js';
+
+export type PlanGoal = 'general' | 'speed' | 'endurance';
+
+export type PlanWeekKind = 'build' | 'recovery' | 'taper';
+
+export type PlanWorkoutKind = 'intervals' | 'steady' | 'progression';
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export type PlanOpts = {
+  goal?: PlanGoal;
+  weeks?: number;
+  daysPerWeek?: number;
+  weekdays?: Weekday[];
+  startDate: string;
+};
+
+export type PlanWeek = {
+  week: number;
+  kind: PlanWeekKind;
+  /** Multiplier applied to each session's base volume (repeats or minutes). */
+  volume: number;
+  /** Added to each session's base intensity fraction. */
+  intensity: number;
+};
+
+export type PlannedWorkout = {
+  /** ISO calendar date, `YYYY-MM-DD`. */
+  date: string;
+  week: number;
+  day: number;
+  weekKind: PlanWeekKind;
+  kind: PlanWorkoutKind;
+  workout: Workout;
+};
+
+export type TrainingPlan = {
+  goal: PlanGoal;
+  startDate: string;
+  weeks: PlanWeek[];
+  sessions: PlannedWorkout[];
+};
+
+// Sessions for each training day of the week, in order; a plan uses the first `daysPerWeek`.
+const ROTATIONS: Record<PlanGoal, PlanWorkoutKind[]> = {
+  general: ['intervals', 'steady', 'progression', 'steady', 'intervals', 'steady', 'steady'],
+  speed: ['intervals', 'steady', 'intervals', 'progression', 'steady', 'intervals', 'steady'],
+  endurance: ['steady', 'progression', 'steady', 'intervals', 'steady', 'progression', 'steady'],
+};
+
+type SessionBase = { repeats: number; mins: number; hard: number; cruise: number; top: number };
+
+const GOAL_BASES: Record<PlanGoal, SessionBase> = {
+  general: { repeats: 5, mins: 30, hard: 0.8, cruise: 0.62, top: 0.78 },
+  speed: { repeats: 6, mins: 25, hard: 0.85, cruise: 0.62, top: 0.82 },
+  endurance: { repeats: 4, mins: 40, hard: 0.78, cruise: 0.6, top: 0.75 },
+};
+
+const KIND_LABELS: Record<PlanWorkoutKind, string> = {
+  intervals: 'Intervals',
+  steady: 'Steady',
+  progression: 'Progression',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAY_NAMES: Record<Weekday, string> = {
+  sun: 'sunday',
+  mon: 'monday',
+  tue: 'tuesday',
+  wed: 'wednesday',
+  thu: 'thursday',
+  fri: 'friday',
+  sat: 'saturday',
+};
+
+// Indexed like Date#getUTCDay.
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function parsePlanDate(text: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : undefined;
+  if (!date || date.toISOString().slice(0, 10) !== text.trim()) {
+    throw new Error(`Invalid date "${text}" (expected YYYY-MM-DD).`);
+  }
+  return date;
+}
+
+export function formatPlanDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Parses a weekday pattern such as `mon,wed,fri`. Longer names (`tues`, `thursday`) are accepted too. */
+export function parseWeekdays(text: string): Weekday[] {
+  const days = text
+    .split(',')
+    .map((part) => part.trim().toLowerCase())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const day = WEEKDAYS.find((weekday) => part.length >= 3 && DAY_NAMES[weekday].startsWith(part));
+      if (!day) {
+        throw new Error(`Invalid weekday "${part}" (expected mon, tue, wed, thu, fri, sat, or sun).`);
+      }
+      return day;
+    });
+  if (!days.length) {
+    throw new Error('Weekday list cannot be empty.');
+  }
+  return [...new Set(days)];
+}
+
+/**
+ * Lays out the weekly load: build weeks add 10% volume and two points of intensity each, every
+ * fourth week drops to 70% of the previous volume at base intensity, and plans of four weeks or
+ * more end with a taper at 60% of peak volume that keeps the peak intensity.
+ */
+export function planWeeks(weeks: number): PlanWeek[] {
+  const count = Math.max(1, Math.round(weeks));
+  const result: PlanWeek[] = [];
+  let builds = 0;
+  let peak = { volume: 1, intensity: 0 };
+  for (let week = 1; week <= count; week++) {
+    if (count >= 4 && week === count) {
+      result.push({ week, kind: 'taper', volume: round(peak.volume * 0.6), intensity: peak.intensity });
+    } else if (week % 4 === 0) {
+      result.push({ week, kind: 'recovery', volume: round(peak.volume * 0.7), intensity: 0 });
+    } else {
+      peak = { volume: round(1 + 0.1 * builds), intensity: round(Math.min(0.1, 0.02 * builds)) };
+      result.push({ week, kind: 'build', ...peak });
+      builds += 1;
+    }
+  }
+  return result;
+}
+
+function spreadDays(daysPerWeek: number): number[] {
+  if (!Number.isInteger(daysPerWeek) || daysPerWeek < 1 || daysPerWeek > 7) {
+    throw new Error('Days per week must be a whole number from 1 to 7.');
+  }
+  return Array.from({ length: daysPerWeek }, (_, index) => Math.floor((index * 7) / daysPerWeek));
+}
+
+function makeSession(
+  profile: DeviceProfile,
+  kind: PlanWorkoutKind,
+  name: string,
+  base: SessionBase,
+  week: PlanWeek,
+): Workout {
+  const totalMins = Math.max(10, Math.round(base.mins * week.volume));
+  switch (kind) {
+    case 'intervals':
+      return makeIntervals(profile, {
+        name,
+        repeats: Math.max(2, Math.round(base.repeats * week.volume)),
+        hardIntensity: Math.min(1, base.hard + week.intensity),
+      });
+    case 'steady':
+      // Easy days rise half as fast as the quality sessions.
+      return makeSteady(profile, { name, totalMins, intensity: Math.min(1, base.cruise + week.intensity / 2) });
+    default:
+      return makeProgression(profile, { name, totalMins, topIntensity: Math.min(1, base.top + week.intensity) });
+  }
+}
+
+export function makePlan(profile: DeviceProfile, opts: PlanOpts): TrainingPlan {
+  const { goal = 'general', weeks = 8, weekdays, startDate } = opts;
+  const start = parsePlanDate(startDate);
+  // Offsets of the training days within each seven-day week, counted from the start date.
+  const offsets = weekdays?.length
+    ? [...new Set(weekdays.map((day) => (WEEKDAYS.indexOf(day) - start.getUTCDay() + 7) % 7))].sort((a, b) => a - b)
+    : spreadDays(opts.daysPerWeek ?? 3);
+  const base = GOAL_BASES[goal];
+  const rotation = ROTATIONS[goal].slice(0, offsets.length);
+
+  const schedule = planWeeks(weeks);
+  const sessions: PlannedWorkout[] = [];
+  for (const week of schedule) {
+    rotation.forEach((kind, index) => {
+      const offset = (week.week - 1) * 7 + offsets[index];
+      const workout = makeSession(profile, kind, `Week ${week.week} ${KIND_LABELS[kind]}`, base, week);
+      sessions.push({
+        date: formatPlanDate(new Date(start.getTime() + offset * DAY_MS)),
+        week: week.week,
+        day: index + 1,
+        weekKind: week.kind,
+        kind,
+        workout,
+      });
+    });
+  }
+
+  return { goal, startDate: formatPlanDate(start), weeks: schedule, sessions };
+}
+
+/** Renders a plan as a fixed-width table, one row per session, with a totals line. */
+export function formatPlanSummary(plan: TrainingPlan): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const count = (value: number, noun: string) => `${value} ${noun}${value === 1 ? '' : 's'}`;
+  const clock = (secs: number) => `${Math.floor(secs / 3600)}:${pad(Math.floor(secs / 60) % 60)}:${pad(secs % 60)}`;
+  let totalSecs = 0;
+  let totalDistance = 0;
+  let unit = '';
+  const rows = plan.sessions.map((session) => {
+    const metrics = session.workout.metrics ?? computeMetrics(session.workout);
+    totalSecs += session.workout.totalSecs;
+    totalDistance += metrics.distance;
+    unit = metrics.distanceUnit;
+    return [
+      session.date,
+      String(session.week),
+      session.weekKind,
+      session.workout.name,
+      clock(session.workout.totalSecs),
+      `${metrics.distance.toFixed(2)} ${metrics.distanceUnit}`,
+    ];
+  });
+
+  const header = ['Date', 'Week', 'Phase', 'Workout', 'Time', 'Distance'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+  const distance = unit ? `, ${totalDistance.toFixed(2)} ${unit}` : '';
+  return [
+    line(header),
+    ...rows.map(line),
+    `${count(plan.sessions.length, 'session')} over ${count(plan.weeks.length, 'week')}, ${clock(totalSecs)}${distance}`,
+  ].join('\n');
+}
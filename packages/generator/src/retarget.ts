@@ -0,0 +1,56 @@
+import {
+  type DeviceProfile,
+  type Segment,
+  type Workout,
+  type WorkoutBlock,
+  clamp,
+  finalizeWorkout,
+  intensitySpeed,
+  planSpeed,
+  plannedSegments,
+  quantizeDown,
+  sortSpeeds,
+  speedIntensity,
+  step,
+} from './generator.js';
+import { convertSpeed } from './pace.js';
+
+function mapBlocks(blocks: WorkoutBlock[], map: (segment: Segment) => Segment): WorkoutBlock[] {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case 'step':
+        return { ...block, segment: map(block.segment) };
+      case 'repeat':
+        return { ...block, blocks: mapBlocks(block.blocks, map) };
+      default:
+        return { ...block, blocks: mapBlocks(block.blocks, map), rest: block.rest ? map(block.rest) : undefined };
+    }
+  });
+}
+
+/**
+ * Moves a workout built for `fromProfile` onto `toProfile`. Each segment keeps its intensity
+ * relative to the source device (as measured by that profile's `intensityReference`) and gets the
+ * destination speed for the same fraction, so a 90% rep stays a 90% rep across units and speed
+ * lists. Inclines keep their grade, snapped down to the destination's inclines, and are dropped when
+ * it has none. The workout is then re-planned under the destination's quantization and safety rules,
+ * keeping its block structure when it has one.
+ */
+export function retarget(workout: Workout, fromProfile: DeviceProfile, toProfile: DeviceProfile): Workout {
+  const speeds = sortSpeeds(toProfile.speeds);
+  if (!speeds.length) {
+    throw new Error('Device profile speeds cannot be empty.');
+  }
+  const inclines = toProfile.inclines?.length ? sortSpeeds(toProfile.inclines) : undefined;
+
+  const map = (segment: Segment): Segment => {
+    const source = convertSpeed(segment.targetSpeed ?? segment.speed, workout.units, fromProfile.units);
+    const target = Math.round(intensitySpeed(toProfile, speedIntensity(fromProfile, source)) * 100) / 100;
+    const speed = planSpeed(toProfile, speeds, clamp(target, speeds[0], speeds[speeds.length - 1]));
+    const incline = segment.incline !== undefined && inclines ? quantizeDown(inclines, segment.incline) : undefined;
+    return { ...segment, speed, targetSpeed: target, incline };
+  };
+
+  const blocks = workout.blocks?.length ? mapBlocks(workout.blocks, map) : plannedSegments(workout).map(map).map(step);
+  return finalizeWorkout(toProfile, workout.name, blocks, workout.plannedSecs);
+}
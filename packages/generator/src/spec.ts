@@ -0,0 +1,326 @@
+import {
+  type DeviceProfile,
+  type SegmentPhase,
+  type Workout,
+  type WorkoutBlock,
+  clamp,
+  finalizeWorkout,
+  intensitySpeed,
+  planSpeed,
+  sortSpeeds,
+  step,
+  warmupSpeed,
+} from './generator.js';
+
+export type SpecTarget =
+  { type: 'named'; name: SpecIntensityName } | { type: 'percent'; value: number } | { type: 'speed'; value: number };
+
+export type SpecIntensityName = 'warm' | 'easy' | 'cruise' | 'hard' | 'stride' | 'max';
+
+export type SpecNode =
+  { type: 'step'; secs: number; target: SpecTarget } | { type: 'repeat'; count: number; body: SpecNode[] };
+
+export type CompileSpecOpts = {
+  name?: string;
+};
+
+export class WorkoutSpecError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'WorkoutSpecError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+const NAMED_INTENSITIES: Record<SpecIntensityName, number> = {
+  warm: 0.35,
+  easy: 0.55,
+  cruise: 0.65,
+  hard: 0.85,
+  stride: 0.9,
+  max: 1,
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 3600,
+  hr: 3600,
+  m: 60,
+  min: 60,
+  s: 1,
+  sec: 1,
+};
+
+type TokenType = 'number' | 'word' | 'symbol' | 'end';
+
+type Token = {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let index = 0;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[index] === '\n') {
+        line += 1;
+        column = 1;
+      } else {
+        column += 1;
+      }
+      index += 1;
+    }
+  };
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      advance(whitespace[0].length);
+      continue;
+    }
+
+    const number = /^\d+(?:\.\d+)?/.exec(rest);
+    const word = /^[a-z×]+/i.exec(rest);
+    const match = number ?? word;
+    if (match) {
+      tokens.push({ type: number ? 'number' : 'word', text: match[0].toLowerCase(), line, column });
+      advance(match[0].length);
+      continue;
+    }
+
+    if ('@%,/():'.includes(source[index])) {
+      tokens.push({ type: 'symbol', text: source[index], line, column });
+      advance(1);
+      continue;
+    }
+
+    throw new WorkoutSpecError(`Unexpected character "${source[index]}"`, line, column);
+  }
+
+  tokens.push({ type: 'end', text: '', line, column });
+  return tokens;
+}
+
+class SpecParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): SpecNode[] {
+    const nodes = this.parseList();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.fail(`Unexpected "${token.text}"`, token);
+    }
+    return nodes;
+  }
+
+  private parseList(): SpecNode[] {
+    const nodes = [this.parseItem()];
+    while (this.isSymbol(',') || this.isSymbol('/')) {
+      this.next();
+      nodes.push(this.parseItem());
+    }
+    return nodes;
+  }
+
+  private parseItem(): SpecNode {
+    const first = this.peek();
+    const second = this.tokens[this.position + 1];
+    if (first.type === 'number' && second?.type === 'word' && (second.text === 'x' || second.text === '×')) {
+      return this.parseRepeat();
+    }
+    return this.parseStep();
+  }
+
+  private parseRepeat(): SpecNode {
+    const countToken = this.next();
+    const count = Number(countToken.text);
+    if (!Number.isInteger(count) || count < 1) {
+      this.fail('Repeat count must be a positive integer', countToken);
+    }
+    this.next();
+
+    if (this.isSymbol('(')) {
+      this.next();
+      const body = this.parseList();
+      this.expectSymbol(')');
+      return { type: 'repeat', count, body };
+    }
+
+    // Without parentheses a repeat binds the "/"-separated steps that follow it, so
+    // "4x20s @90% / 40s @cruise" repeats the stride and its float together.
+    const body = [this.parseStep()];
+    while (this.isSymbol('/')) {
+      this.next();
+      body.push(this.parseStep());
+    }
+    return { type: 'repeat', count, body };
+  }
+
+  private parseStep(): SpecNode {
+    const secs = this.parseDuration();
+    this.expectSymbol('@');
+    const target = this.parseTarget();
+    return { type: 'step', secs, target };
+  }
+
+  private parseDuration(): number {
+    const start = this.peek();
+    if (start.type !== 'number') {
+      this.fail('Expected a duration such as 90s or 5m', start);
+    }
+
+    if (this.tokens[this.position + 1]?.text === ':') {
+      const minutes = Number(this.next().text);
+      this.next();
+      const secondsToken = this.next();
+      if (secondsToken.type !== 'number' || !/^\d\d$/.test(secondsToken.text)) {
+        this.fail('Expected two-digit seconds after ":"', secondsToken);
+      }
+      return minutes * 60 + Number(secondsToken.text);
+    }
+
+    let secs = 0;
+    do {
+      const amount = Number(this.next().text);
+      const unitToken = this.next();
+      const multiplier = unitToken.type === 'word' ? DURATION_UNITS[unitToken.text] : undefined;
+      if (multiplier === undefined) {
+        this.fail('Expected a duration unit (s, m, or h)', unitToken);
+      }
+      secs += amount * multiplier;
+    } while (this.peek().type === 'number' && this.tokens[this.position + 1]?.type === 'word');
+
+    const rounded = Math.round(secs);
+    if (rounded <= 0) {
+      this.fail('Duration must be at least one second', start);
+    }
+    return rounded;
+  }
+
+  private parseTarget(): SpecTarget {
+    const token = this.next();
+    if (token.type === 'word') {
+      if (!(token.text in NAMED_INTENSITIES)) {
+        const names = Object.keys(NAMED_INTENSITIES).join(', ');
+        this.fail(`Unknown intensity "${token.text}" (expected a percentage, a speed, or one of ${names})`, token);
+      }
+      return { type: 'named', name: token.text as SpecIntensityName };
+    }
+    if (token.type === 'number') {
+      const value = Number(token.text);
+      if (this.isSymbol('%')) {
+        this.next();
+        return { type: 'percent', value };
+      }
+      return { type: 'speed', value };
+    }
+    return this.fail('Expected an intensity after "@"', token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'end') {
+      this.position += 1;
+    }
+    return token;
+  }
+
+  private isSymbol(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.text === text;
+  }
+
+  private expectSymbol(text: string) {
+    const token = this.peek();
+    if (!this.isSymbol(text)) {
+      this.fail(`Expected "${text}"`, token);
+    }
+    this.next();
+  }
+
+  private fail(message: string, token: Token): never {
+    const found = token.type === 'end' ? ' but reached the end of the spec' : '';
+    throw new WorkoutSpecError(`${message}${found}`, token.line, token.column);
+  }
+}
+
+export function parseWorkoutSpec(source: string): SpecNode[] {
+  return new SpecParser(tokenize(source)).parse();
+}
+
+function targetLabel(target: SpecTarget): string | undefined {
+  switch (target.type) {
+    case 'named':
+      return target.name === 'warm' ? undefined : `${target.name[0].toUpperCase()}${target.name.slice(1)}`;
+    case 'percent':
+      return `${target.value}%`;
+    default:
+      return undefined;
+  }
+}
+
+export function compileWorkoutSpec(profile: DeviceProfile, source: string, opts: CompileSpecOpts = {}): Workout {
+  const nodes = parseWorkoutSpec(source);
+  const speeds = sortSpeeds(profile.speeds);
+  const max = speeds[speeds.length - 1];
+  const min = speeds[0];
+
+  const resolveTarget = (target: SpecTarget) => {
+    switch (target.type) {
+      case 'named':
+        return target.name === 'warm' ? warmupSpeed(profile) : intensitySpeed(profile, NAMED_INTENSITIES[target.name]);
+      case 'percent':
+        return intensitySpeed(profile, target.value / 100);
+      default:
+        return target.value;
+    }
+  };
+
+  // Warm steps bracketing the spec become the warm-up and cool-down; everything else is work or
+  // recovery depending on whether it sits in the upper quarter of the device's speed range.
+  const phaseFor = (target: SpecTarget, index: number, topLevel: boolean): SegmentPhase => {
+    if (target.type === 'named' && target.name === 'warm') {
+      if (topLevel && index === 0) {
+        return 'warmup';
+      }
+      return topLevel && index === nodes.length - 1 ? 'cooldown' : 'recovery';
+    }
+    if (target.type === 'named' && target.name === 'stride') {
+      return 'stride';
+    }
+    return resolveTarget(target) >= max * 0.75 ? 'work' : topLevel ? 'step' : 'recovery';
+  };
+
+  const toBlocks = (list: SpecNode[], topLevel: boolean): WorkoutBlock[] =>
+    list.map((node, index) => {
+      if (node.type === 'repeat') {
+        return { type: 'repeat', count: node.count, blocks: toBlocks(node.body, false) };
+      }
+      const targetSpeed = Math.round(resolveTarget(node.target) * 100) / 100;
+      return step({
+        secs: node.secs,
+        speed: planSpeed(profile, speeds, clamp(targetSpeed, min, max)),
+        phase: phaseFor(node.target, index, topLevel),
+        label: targetLabel(node.target),
+        targetSpeed,
+      });
+    });
+
+  return finalizeWorkout(profile, opts.name ?? 'Custom', toBlocks(nodes, true));
+}
@@ -0,0 +1,129 @@
+import type { DeviceProfile, Workout } from './generator.js';
+import { compileWorkoutSpec } from './spec.js';
+
+export type WorkoutTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  /** Workout notation (see `compileWorkoutSpec`) with `{param}` placeholders. */
+  spec: string;
+  params: Record<string, number>;
+};
+
+export const BUILTIN_TEMPLATES: WorkoutTemplate[] = [
+  {
+    id: 'norwegian-4x4',
+    name: 'Norwegian 4x4',
+    description: 'Four long efforts near the top of your range with active recoveries, for VO2max.',
+    spec: '{warmup}m @warm, {repeats}x({work}m @{hard}%, {rest}m @{easy}%), {cooldown}m @warm',
+    params: { warmup: 10, repeats: 4, work: 4, rest: 3, hard: 90, easy: 60, cooldown: 5 },
+  },
+  {
+    id: '30-30s',
+    name: '30/30s',
+    description: 'Short, fast reps with equal easy recoveries; time at intensity without a long grind.',
+    spec: '{warmup}m @warm, {repeats}x({on}s @{hard}%, {off}s @{easy}%), {cooldown}m @warm',
+    params: { warmup: 10, repeats: 10, on: 30, off: 30, hard: 95, easy: 55, cooldown: 5 },
+  },
+  {
+    id: 'tempo-20',
+    name: 'Tempo 20',
+    description: 'A continuous, comfortably hard block between an easy warm-up and cool-down.',
+    spec: '{warmup}m @warm, {tempo}m @{intensity}%, {cooldown}m @warm',
+    params: { warmup: 10, tempo: 20, intensity: 80, cooldown: 10 },
+  },
+  {
+    id: 'pyramid-1-2-3-2-1',
+    name: 'Pyramid 1-2-3-2-1',
+    description: 'Hard efforts of 1, 2, 3, 2, and 1 minutes, each followed by an equal easy recovery.',
+    spec: [
+      '{warmup}m @warm',
+      '1m @{hard}%, 1m @{easy}%',
+      '2m @{hard}%, 2m @{easy}%',
+      '3m @{hard}%, 3m @{easy}%',
+      '2m @{hard}%, 2m @{easy}%',
+      '1m @{hard}%',
+      '{cooldown}m @warm',
+    ].join(', '),
+    params: { warmup: 10, hard: 85, easy: 55, cooldown: 5 },
+  },
+  {
+    id: 'recovery-walk',
+    name: 'Recovery walk',
+    description: 'An easy walk for the day after a hard session.',
+    spec: '{walk}m @{intensity}%',
+    params: { walk: 30, intensity: 45 },
+  },
+];
+
+/**
+ * Combines the built-in catalog with user templates. A user template replaces a built-in one with
+ * the same id.
+ */
+export function mergeTemplates(user: WorkoutTemplate[] = [], builtins = BUILTIN_TEMPLATES): WorkoutTemplate[] {
+  const merged = new Map(builtins.map((template) => [template.id, template]));
+  for (const template of user) {
+    merged.set(template.id, template);
+  }
+  return [...merged.values()];
+}
+
+export function findTemplate(templates: WorkoutTemplate[], id: string): WorkoutTemplate {
+  const template = templates.find((entry) => entry.id === id);
+  if (!template) {
+    throw new Error(`Unknown template "${id}". Known templates: ${templates.map((entry) => entry.id).join(', ')}.`);
+  }
+  return template;
+}
+
+// A step timed by a single placeholder (`{warmup}m @warm`), or a repeat counted by one, either a
+// parenthesised group or the "/"-joined steps that follow the count.
+const PLACEHOLDER_STEP = /\{(\w+)\}\s*(?:h|hr|m|min|s|sec)\s*@[^,()/]*/g;
+const PLACEHOLDER_REPEAT = /\{(\w+)\}\s*[x×]\s*(?:\([^()]*\)|[^,()]*)/g;
+const REPEAT_COUNT = String.raw`(?:\d+|\{\w+\})\s*[x×]`;
+
+// Removes steps and repeats whose placeholder is zero, then tidies the separators they leave.
+function dropZeroSteps(spec: string, params: Record<string, number>): string {
+  const drop = (match: string, key: string) => (params[key] === 0 ? '' : match);
+  return spec
+    .replace(PLACEHOLDER_REPEAT, drop)
+    .replace(PLACEHOLDER_STEP, drop)
+    .replace(new RegExp(String.raw`${REPEAT_COUNT}\s*(?:\(\s*(?:[,/]\s*)*\)|(?:\/\s*)*(?=[,)]|$))`, 'g'), '')
+    .replace(new RegExp(String.raw`(${REPEAT_COUNT})\s*(?:\/\s*)+`, 'g'), '$1')
+    .replace(/\(\s*(?:[,/]\s*)+/g, '(')
+    .replace(/(?:\s*[,/])+\s*\)/g, ')')
+    .replace(/\s*[,/](?:\s*[,/])+\s*/g, (run) => (run.includes(',') ? ', ' : ' / '))
+    .replace(/^\s*[,/]\s*|\s*[,/]\s*$/g, '');
+}
+
+/**
+ * Fills a template's placeholders from its defaults and `overrides`, returning workout notation. A
+ * step or repeat group whose placeholder is set to 0 is left out, so `warmup=0` skips the warm-up.
+ */
+export function resolveTemplateSpec(template: WorkoutTemplate, overrides: Record<string, number> = {}): string {
+  for (const key of Object.keys(overrides)) {
+    if (!(key in template.params)) {
+      const known = Object.keys(template.params).join(', ');
+      throw new Error(`Template "${template.id}" has no parameter "${key}" (expected one of: ${known}).`);
+    }
+  }
+  const params = { ...template.params, ...overrides };
+  const spec = dropZeroSteps(template.spec, params);
+  if (!spec.trim()) {
+    throw new Error(`Template "${template.id}" has no steps left once its zero-length steps are dropped.`);
+  }
+  return spec.replace(/\{(\w+)\}/g, (_, key: string) => {
+    if (!(key in params)) {
+      throw new Error(`Template "${template.id}" uses {${key}} but has no default for it.`);
+    }
+    return String(params[key]);
+  });
+}
+
+export function renderTemplate(
+  profile: DeviceProfile,
+  template: WorkoutTemplate,
+  overrides: Record<string, number> = {},
+): Workout {
+  return compileWorkoutSpec(profile, resolveTemplateSpec(template, overrides), { name: template.name });
+}
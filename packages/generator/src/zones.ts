@@ -0,0 +1,81 @@
+export type HrZone = 'z1' | 'z2' | 'z3' | 'z4' | 'z5';
+
+export type UserProfile = {
+  maxHr?: number;
+  /** Lactate threshold heart rate; when set it is used for zone bounds instead of `maxHr`. */
+  lthr?: number;
+  /** Device speed (in profile units) that keeps the user in the middle of each zone. */
+  zoneSpeeds?: Partial<Record<HrZone, number>>;
+  /** Body mass for energy estimates. */
+  massKg?: number;
+};
+
+export type HeartRateRange = {
+  low: number;
+  high: number;
+};
+
+export const HR_ZONES: HrZone[] = ['z1', 'z2', 'z3', 'z4', 'z5'];
+
+const MAX_HR_BOUNDS: Record<HrZone, [number, number]> = {
+  z1: [0.5, 0.6],
+  z2: [0.6, 0.7],
+  z3: [0.7, 0.8],
+  z4: [0.8, 0.9],
+  z5: [0.9, 1],
+};
+
+const LTHR_BOUNDS: Record<HrZone, [number, number]> = {
+  z1: [0.65, 0.85],
+  z2: [0.85, 0.89],
+  z3: [0.9, 0.94],
+  z4: [0.95, 0.99],
+  z5: [1, 1.06],
+};
+
+export function isHrZone(value: string): value is HrZone {
+  return (HR_ZONES as string[]).includes(value);
+}
+
+export function formatZone(zone: HrZone): string {
+  return zone.toUpperCase();
+}
+
+export function zoneHeartRate(user: UserProfile | undefined, zone: HrZone): HeartRateRange | undefined {
+  const reference = user?.lthr ?? user?.maxHr;
+  if (!reference) {
+    return undefined;
+  }
+  const [low, high] = (user?.lthr ? LTHR_BOUNDS : MAX_HR_BOUNDS)[zone];
+  return { low: Math.round(reference * low), high: Math.round(reference * high) };
+}
+
+/** Resolves a zone target to its calibrated device speed. */
+export function zoneSpeed(user: UserProfile | undefined, zone: HrZone): number {
+  const speed = user?.zoneSpeeds?.[zone];
+  if (speed === undefined) {
+    throw new Error(`Device profile has no speed calibration for ${formatZone(zone)} (set user.zoneSpeeds.${zone}).`);
+  }
+  return speed;
+}
+
+/**
+ * Returns the zone whose calibrated speed is closest to `speed` (the lower zone on a tie), or
+ * undefined when the profile has no zone calibration.
+ */
+export function zoneForSpeed(user: UserProfile | undefined, speed: number): HrZone | undefined {
+  let best: HrZone | undefined;
+  let bestGap = Infinity;
+  for (const zone of HR_ZONES) {
+    const calibrated = user?.zoneSpeeds?.[zone];
+    if (calibrated === undefined) {
+      continue;
+    }
+    const gap = Math.abs(calibrated - speed);
+    if (gap < bestGap) {
+      best = zone;
+      bestGap = gap;
+    }
+  }
+  return best;
+}
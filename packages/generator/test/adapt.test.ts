@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  type SessionRecord,
+  makeIntervals,
+  proposeNextSession,
+  recordFeedback,
+  sessionRecordSchema,
+} from '../src/index.js';
+
+const profile: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4] };
+
+const intervals = (feedback?: SessionRecord['feedback'], opts = {}): SessionRecord => ({
+  kind: 'intervals',
+  opts: { repeats: 6, hardIntensity: 0.75, ...opts },
+  date: '2026-11-02',
+  segmentCount: 14,
+  feedback,
+});
+
+const hardSpeed = (opts: object) =>
+  makeIntervals(profile, opts).segments.find((segment) => segment.phase === 'work')?.speed;
+
+describe('proposeNextSession', () => {
+  it('raises the work speed one allowed step after an easy session', () => {
+    const proposal = proposeNextSession(profile, [intervals({ rpe: 4, completed: true })]);
+    expect(proposal.action).toBe('progress');
+    expect(proposal.kind).toBe('intervals');
+    expect(hardSpeed(proposal.opts)).toBe(3.5);
+    expect(proposal.reason).toBe('RPE 4: raising the work speed to 3.5 mph.');
+  });
+
+  it('adds volume after a moderate session and holds after a hard one', () => {
+    const moderate = proposeNextSession(profile, [intervals({ rpe: 7, completed: true })]);
+    expect(moderate.action).toBe('extend');
+    expect(moderate.opts).toMatchObject({ repeats: 7, hardIntensity: 0.75 });
+
+    const hard = proposeNextSession(profile, [intervals({ rpe: 8, completed: true })]);
+    expect(hard.action).toBe('hold');
+    expect(hard.opts).toEqual(intervals().opts);
+  });
+
+  it('backs off speed and volume after stopping early', () => {
+    const proposal = proposeNextSession(profile, [intervals({ rpe: 10, completed: false, segmentIndex: 4 })]);
+    expect(proposal.action).toBe('back-off');
+    expect(hardSpeed(proposal.opts)).toBe(2.5);
+    expect(proposal.opts).toMatchObject({ repeats: 5 });
+    expect(proposal.reason).toBe(
+      'After stopping at segment 5 of 14: easing the work speed to 2.5 mph and dropping a repeat.',
+    );
+  });
+
+  it('keeps absolute speeds on the speed list', () => {
+    const proposal = proposeNextSession(profile, [intervals({ rpe: 3, completed: true }, { hardSpeed: 3.2 })]);
+    expect(proposal.opts).toMatchObject({ hardSpeed: 3.5 });
+  });
+
+  it('adds volume when the work speed is already the top speed', () => {
+    const proposal = proposeNextSession(profile, [
+      {
+        kind: 'steady',
+        opts: { totalMins: 30, intensity: 1 },
+        date: '2026-11-02',
+        feedback: { rpe: 3, completed: true },
+      },
+    ]);
+    expect(proposal.action).toBe('extend');
+    expect(proposal.opts).toMatchObject({ totalMins: 35 });
+  });
+
+  it('uses the latest feedback of the requested kind', () => {
+    const history: SessionRecord[] = [
+      intervals({ rpe: 4, completed: true }),
+      { kind: 'steady', opts: {}, date: '2026-11-03', feedback: { rpe: 5, completed: true } },
+    ];
+    expect(proposeNextSession(profile, history, 'intervals').kind).toBe('intervals');
+    expect(proposeNextSession(profile, history).kind).toBe('steady');
+    expect(proposeNextSession(profile, history, 'progression').action).toBe('start');
+    expect(() => proposeNextSession(profile, [])).toThrow(/No session history/);
+  });
+});
+
+describe('recordFeedback', () => {
+  it('attaches feedback to the latest session waiting for it', () => {
+    const history = recordFeedback([intervals({ rpe: 6, completed: true }), intervals()], { rpe: 5, completed: true });
+    expect(history[1].feedback).toEqual({ rpe: 5, completed: true });
+    expect(history[0].feedback?.rpe).toBe(6);
+    expect(() => recordFeedback(history, { rpe: 5, completed: true })).toThrow(/No session is waiting/);
+    expect(() => recordFeedback([intervals()], { rpe: 11, completed: true })).toThrow(/between 1 and 10/);
+  });
+});
+
+describe('sessionRecordSchema', () => {
+  it("checks each session's opts against its kind", () => {
+    const record = intervals({ rpe: 5, completed: true });
+    expect(sessionRecordSchema.parse(record)).toEqual(record);
+    expect(sessionRecordSchema.safeParse(intervals(undefined, { hardZone: 'z9' })).success).toBe(false);
+    expect(sessionRecordSchema.safeParse({ ...record, kind: 'steady' }).success).toBe(false);
+  });
+});
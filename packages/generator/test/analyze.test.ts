@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, analyzeWorkout, makeIntervals, makeSteady } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 1,
+};
+
+describe('analyzeWorkout', () => {
+  it('reports nothing for a workout that fits the device', () => {
+    expect(analyzeWorkout(profile, makeIntervals(profile))).toEqual([]);
+  });
+
+  it('flags clamped ramps and merged segments', () => {
+    const clampProfile: DeviceProfile = { ...profile, speeds: [1, 2, 3], rampLimitPerChange: 0.5, minSegmentSec: 100 };
+    const workout = makeIntervals(clampProfile, {
+      warmupMins: 1,
+      cooldownMins: 0,
+      repeats: 1,
+      hardSecs: 60,
+      easySecs: 60,
+      hardIntensity: 1,
+    });
+
+    const codes = analyzeWorkout(clampProfile, workout).map((diagnostic) => diagnostic.code);
+    expect(codes).toContain('ramp-clamped');
+    expect(codes).toContain('segment-merged');
+  });
+
+  it('flags targets outside the allowed speed range', () => {
+    const workout = makeIntervals(profile, { hardIntensity: 1.2, easyIntensity: 0.2, repeats: 1 });
+    const diagnostics = analyzeWorkout(profile, workout);
+
+    expect(diagnostics.find((diagnostic) => diagnostic.code === 'intensity-above-max')).toMatchObject({
+      severity: 'warning',
+      segmentIndex: 1,
+    });
+    expect(diagnostics.find((diagnostic) => diagnostic.code === 'below-min-speed')).toMatchObject({
+      severity: 'warning',
+      segmentIndex: 2,
+    });
+  });
+
+  it('flags total duration drift from rounding', () => {
+    const workout = makeSteady(profile, { totalMins: 7.75, addStrides: false });
+    const drift = analyzeWorkout(profile, workout).find((diagnostic) => diagnostic.code === 'duration-drift');
+
+    expect(workout.totalSecs).toBe(466);
+    expect(drift?.message).toContain('1s longer');
+  });
+});
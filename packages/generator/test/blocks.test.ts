@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, type WorkoutBlock, flatten, makeIntervals } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 1,
+};
+
+describe('flatten', () => {
+  it('expands nested repeats and sets with their positions', () => {
+    const blocks: WorkoutBlock[] = [
+      { type: 'step', segment: { secs: 60, speed: 1 } },
+      {
+        type: 'set',
+        count: 2,
+        rest: { secs: 120, speed: 1 },
+        blocks: [
+          {
+            type: 'repeat',
+            count: 3,
+            blocks: [
+              { type: 'step', segment: { secs: 30, speed: 3 } },
+              { type: 'step', segment: { secs: 30, speed: 2 } },
+            ],
+          },
+        ],
+      },
+    ];
+
+    const segments = flatten(blocks);
+
+    expect(segments).toHaveLength(1 + 2 * 6 + 1);
+    expect(segments[0].position).toBeUndefined();
+    expect(segments[3].position).toEqual([
+      { kind: 'set', index: 1, count: 2 },
+      { kind: 'repeat', index: 2, count: 3 },
+    ]);
+    expect(segments[7]).toEqual({ secs: 120, speed: 1, position: [{ kind: 'set', index: 1, count: 2 }] });
+    expect(segments[segments.length - 1].position).toEqual([
+      { kind: 'set', index: 2, count: 2 },
+      { kind: 'repeat', index: 3, count: 3 },
+    ]);
+  });
+});
+
+describe('makeIntervals structure', () => {
+  it('keeps the repeat group in the workout blocks', () => {
+    const workout = makeIntervals(profile, { repeats: 4 });
+
+    expect(workout.blocks?.map((block) => block.type)).toEqual(['step', 'repeat', 'step']);
+    expect(workout.segments[3].position).toEqual([{ kind: 'repeat', index: 2, count: 4 }]);
+    expect(workout.segments[3].cue).toBe('Hard 2/4 @ 2.5 mph');
+  });
+
+  it('wraps repeats in sets separated by set rest', () => {
+    const workout = makeIntervals(profile, {
+      warmupMins: 0,
+      cooldownMins: 0,
+      sets: 3,
+      repeats: 2,
+      hardSecs: 60,
+      easySecs: 60,
+      setRestSecs: 120,
+    });
+
+    expect(workout.totalSecs).toBe(3 * 2 * 120 + 2 * 120);
+    const rests = workout.segments.filter((segment) => segment.label === 'Set rest');
+    expect(rests).toHaveLength(2);
+    expect(workout.segments[workout.segments.length - 1].position).toEqual([
+      { kind: 'set', index: 3, count: 3 },
+      { kind: 'repeat', index: 2, count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  type Workout,
+  analyzeWorkout,
+  makeDistance,
+  makeIntervals,
+  metresPerSecond,
+  parseDistance,
+} from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'kph',
+  speeds: [3, 4, 5, 6, 7],
+  minSegmentSec: 30,
+  rampLimitPerChange: 4,
+};
+
+const metresCovered = (workout: Workout) =>
+  workout.segments.reduce((sum, segment) => sum + metresPerSecond(segment.speed, workout.units) * segment.secs, 0);
+
+describe('distance workouts', () => {
+  it('solves a distance goal into segments that cover it', () => {
+    const workout = makeDistance(profile, { distance: 5, distanceUnit: 'km', speed: 6 });
+
+    expect(workout.name).toBe('5 km');
+    expect(workout.segments.map((segment) => segment.phase)).toEqual(['warmup', 'work', 'cooldown']);
+    expect(workout.segments[1].speed).toBe(6);
+    expect(Math.abs(metresCovered(workout) - 5000)).toBeLessThanOrEqual(metresPerSecond(4, 'kph') / 2);
+    expect(workout.metrics?.distance).toBeCloseTo(5, 2);
+    expect(workout.totalSecs).toBe(workout.segments.reduce((sum, segment) => sum + segment.secs, 0));
+  });
+
+  it('caps the warm-up and cool-down for short goals', () => {
+    const workout = makeDistance(profile, { distance: 400, distanceUnit: 'm', speed: 6 });
+    const warmMetres = metresPerSecond(workout.segments[0].speed, 'kph') * workout.segments[0].secs;
+
+    expect(warmMetres).toBeLessThanOrEqual(100.5);
+    expect(Math.abs(metresCovered(workout) - 400)).toBeLessThanOrEqual(1);
+  });
+
+  it('times distance reps at the quantized speed', () => {
+    const workout = makeIntervals(
+      { ...profile, units: 'mph', speeds: [1.5, 2, 2.5, 3, 3.5, 4] },
+      { repeats: 8, hardDistance: 400, easyDistance: 200, hardSpeed: 3.2, easySpeed: 2.2, cooldownMins: 0 },
+    );
+    const hard = workout.segments.filter((segment) => segment.phase === 'work');
+    const easy = workout.segments.filter((segment) => segment.phase === 'recovery');
+
+    expect(hard).toHaveLength(8);
+    expect(hard[0]).toMatchObject({ speed: 3, secs: Math.round(400 / metresPerSecond(3, 'mph')) });
+    expect(easy[0]).toMatchObject({ speed: 2, secs: Math.round(200 / metresPerSecond(2, 'mph')) });
+    expect(easy[easy.length - 1].repeat).toEqual({ index: 8, count: 8 });
+
+    const goal = metresPerSecond(2, 'mph') * 300 + 8 * 600;
+    expect(Math.abs(metresCovered(workout) - goal)).toBeLessThanOrEqual(metresPerSecond(2, 'mph') / 2);
+  });
+
+  it('leaves gaps from clamped speeds to the diagnostics instead of stretching the last segment', () => {
+    const clamped: DeviceProfile = { ...profile, rampLimitPerChange: 1.5 };
+    const workout = makeDistance(clamped, { distance: 5, distanceUnit: 'km', speed: 7 });
+
+    expect(workout.segments[1]).toMatchObject({ speed: 5, safety: { clamped: true } });
+    expect(Math.abs(workout.segments[2].secs - 5 * 60)).toBeLessThanOrEqual(2);
+    expect(workout.goalMetres).toBe(5000);
+    const drift = analyzeWorkout(clamped, workout).find((diagnostic) => diagnostic.code === 'distance-drift');
+    expect(drift?.message).toContain('less than the 5000 m goal');
+    expect(analyzeWorkout(profile, makeDistance(profile, { distance: 5, distanceUnit: 'km', speed: 7 }))).toEqual([]);
+  });
+
+  it('parses distances', () => {
+    expect(parseDistance('5km')).toEqual({ value: 5, unit: 'km' });
+    expect(parseDistance('400 m')).toEqual({ value: 400, unit: 'm' });
+    expect(parseDistance('3.1MI')).toEqual({ value: 3.1, unit: 'mi' });
+    expect(() => parseDistance('far')).toThrow(/Invalid distance/);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, fitWorkoutToDuration, makeIntervals, makeProgression, makeSteady } from '../src/index.js';
+
+const profile: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4], minSegmentSec: 30 };
+
+describe('makeIntervals totalMins', () => {
+  it('solves for the repeat count and stretches the warm-up and cool-down', () => {
+    const workout = makeIntervals(profile, { totalMins: 27, hardSecs: 60, easySecs: 120 });
+    const work = workout.segments.filter((segment) => segment.phase === 'work');
+    expect(work).toHaveLength(5);
+    expect(workout.totalSecs).toBe(27 * 60);
+    expect(workout.segments[0]).toMatchObject({ phase: 'warmup', secs: 360 });
+    expect(workout.segments[workout.segments.length - 1]).toMatchObject({ phase: 'cooldown', secs: 360 });
+  });
+
+  it('keeps an explicit repeat count and structured reps, resizing only the bookends', () => {
+    const explicit = makeIntervals(profile, { totalMins: 30, repeats: 4, warmupMins: 2, cooldownMins: 6 });
+    expect(explicit.segments.filter((segment) => segment.phase === 'work')).toHaveLength(4);
+    expect(explicit.segments[0].secs).toBe(270);
+    expect(explicit.totalSecs).toBe(30 * 60);
+
+    const pyramid = makeIntervals(profile, { totalMins: 30, structure: 'pyramid', repeats: 3, sets: 2 });
+    expect(pyramid.totalSecs).toBe(30 * 60);
+  });
+
+  it('rejects targets shorter than the reps themselves', () => {
+    expect(() => makeIntervals(profile, { totalMins: 5, repeats: 4 })).toThrow('more than the 5-minute target');
+    expect(() => makeIntervals(profile, { totalMins: 20, hardDistance: 400 })).toThrow('Distance reps');
+  });
+});
+
+describe('fitWorkoutToDuration', () => {
+  it('scales every segment in proportion and hits the duration exactly', () => {
+    const workout = makeProgression(profile, { totalMins: 30, steps: 4 });
+    const fitted = fitWorkoutToDuration(profile, workout, 20 * 60);
+    expect(fitted.totalSecs).toBe(20 * 60);
+    expect(fitted.segments.map((segment) => segment.speed)).toEqual(workout.segments.map((segment) => segment.speed));
+    expect(fitted.segments[0].secs).toBe(200);
+    expect(fitted.segments[1].cue).toBe(workout.segments[1].cue);
+  });
+
+  it('keeps short segments at the minimum length when compressing', () => {
+    const workout = makeSteady(profile, { totalMins: 30 });
+    const fitted = fitWorkoutToDuration(profile, workout, 12 * 60);
+    expect(fitted.totalSecs).toBe(12 * 60);
+    const strides = fitted.segments.filter((segment) => segment.phase === 'stride');
+    expect(strides).toHaveLength(4);
+    expect(strides.every((segment) => segment.secs === 20)).toBe(true);
+    expect(fitted.segments.every((segment) => segment.secs >= 20)).toBe(true);
+  });
+
+  it('plans ramp steps again instead of scaling them', () => {
+    const ramped: DeviceProfile = { ...profile, rampLimitPerChange: 0.5, rampPolicy: 'step', rampStepSecs: 10 };
+    const workout = makeIntervals(ramped, { repeats: 2, warmupMins: 2, cooldownMins: 2 });
+    const fitted = fitWorkoutToDuration(ramped, workout, workout.totalSecs * 2);
+    expect(fitted.totalSecs).toBe(workout.totalSecs * 2);
+    const ramps = fitted.segments.filter((segment) => segment.phase === 'ramp');
+    expect(ramps.length).toBeGreaterThan(0);
+    expect(ramps.every((segment) => segment.secs === 10)).toBe(true);
+  });
+
+  it('refuses durations that would break minSegmentSec', () => {
+    const workout = makeIntervals(profile, { repeats: 6 });
+    expect(() => fitWorkoutToDuration(profile, workout, 60)).toThrow('minSegmentSec');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, analyzeWorkout, fitWorkoutToDuration, makeIntervals, makeSteady } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Pad',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4],
+  highSpeedThreshold: 3.5,
+  maxHighSpeedSecs: 300,
+};
+
+const steadyOpts = { totalMins: 20, speed: 4, warmupMins: 0, cooldownMins: 0, addStrides: false };
+
+describe('duty-cycle limits', () => {
+  it('splits long runs above the threshold with cool-offs and keeps the total', () => {
+    const workout = makeSteady(profile, steadyOpts);
+    expect(workout.segments.map((segment) => segment.speed)).toEqual([4, 3, 4, 3, 4, 3, 4]);
+    expect(workout.segments.map((segment) => segment.secs)).toEqual([300, 60, 300, 60, 300, 60, 120]);
+    expect(workout.segments[1]).toMatchObject({
+      label: 'Cool-off',
+      cue: 'Cool-off @ 3 mph',
+      safety: { dutyCycle: true },
+    });
+    expect(workout.totalSecs).toBe(20 * 60);
+  });
+
+  it('only resets after a full cool-off below the threshold', () => {
+    const workout = makeIntervals(
+      { ...profile, coolOffSecs: 90 },
+      { warmupMins: 0, cooldownMins: 0, repeats: 3, hardSecs: 240, easySecs: 60, hardIntensity: 1, easyIntensity: 0.5 },
+    );
+    expect(workout.segments.map((segment) => segment.secs)).toEqual([240, 60, 60, 90, 90, 60, 210, 30, 60]);
+    expect(workout.segments[4].cue).toBe('Hard 2/3 @ 4 mph');
+    expect(workout.totalSecs).toBe(3 * 300);
+
+    const diagnostics = analyzeWorkout(profile, workout).filter(
+      (diagnostic) => diagnostic.code === 'duty-cycle-cool-off',
+    );
+    expect(diagnostics.map((diagnostic) => diagnostic.segmentIndex)).toEqual([3, 7]);
+  });
+
+  it('carries a cool-off cut short by the end of a segment into the next one', () => {
+    const workout = makeIntervals(
+      { ...profile, maxHighSpeedSecs: 60 },
+      { warmupMins: 0, cooldownMins: 0, repeats: 2, hardSecs: 100, easySecs: 5, hardIntensity: 1, easyIntensity: 1 },
+    );
+    expect(workout.segments.map((segment) => [segment.speed, segment.secs])).toEqual([
+      [4, 60],
+      [3, 40],
+      [3, 5],
+      [3, 15],
+      [4, 60],
+      [3, 25],
+      [3, 5],
+    ]);
+  });
+
+  it('keeps cool-offs within the ramp limit', () => {
+    const ramped: DeviceProfile = { ...profile, highSpeedThreshold: 2, rampLimitPerChange: 0.5 };
+    const opts = { ...steadyOpts, totalMins: 15 };
+
+    const clamped = makeSteady(ramped, opts);
+    const jumps = clamped.segments
+      .slice(1)
+      .map((segment, index) => Math.abs(segment.speed - clamped.segments[index].speed));
+    expect(Math.max(...jumps)).toBeLessThanOrEqual(0.5);
+    expect(analyzeWorkout(ramped, clamped).map((diagnostic) => diagnostic.code)).toContain('ramp-clamped');
+
+    const stepped = makeSteady({ ...ramped, rampPolicy: 'step' }, opts);
+    const coolOff = stepped.segments.findIndex((segment) => segment.label === 'Cool-off');
+    expect(stepped.segments[coolOff]).toMatchObject({ speed: 1.5, secs: 60 });
+    // The 4 mph cruise plus the ramp down above 2 mph stays within the five-minute limit.
+    const hot = stepped.segments.slice(0, coolOff);
+    expect(hot.reduce((sum, segment) => sum + segment.secs, 0)).toBe(300);
+    expect(stepped.totalSecs).toBe(15 * 60);
+  });
+
+  it('joins split segments back up when refitting a workout', () => {
+    const fitted = fitWorkoutToDuration(profile, makeSteady(profile, steadyOpts), 600);
+    expect(fitted.segments.map((segment) => [segment.speed, segment.secs])).toEqual([
+      [4, 300],
+      [3, 60],
+      [4, 240],
+    ]);
+  });
+
+  it('compresses sessions longer than maxSessionSecs', () => {
+    const capped: DeviceProfile = { ...profile, maxSessionSecs: 1200, minSegmentSec: 30 };
+    const workout = makeIntervals(capped, { repeats: 8 });
+    expect(workout.totalSecs).toBe(1200);
+    expect(workout.cappedFromSecs).toBeGreaterThan(1200);
+    expect(workout.plannedSecs).toBe(1200);
+
+    const codes = analyzeWorkout(capped, workout).map((diagnostic) => diagnostic.code);
+    expect(codes).toContain('session-capped');
+    expect(codes).not.toContain('duration-drift');
+  });
+
+  it('needs a speed below the threshold to cool off at', () => {
+    expect(() => makeSteady({ ...profile, highSpeedThreshold: 1 }, steadyOpts)).toThrow(
+      'no speed below highSpeedThreshold',
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  type FitWorkoutStep,
+  decodeFitWorkout,
+  encodeFitWorkout,
+  makeIntervals,
+  makeSteady,
+} from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 2,
+};
+
+const timeCreated = new Date(Date.UTC(2024, 0, 1));
+
+function expand(steps: FitWorkoutStep[]): FitWorkoutStep[] {
+  const out: FitWorkoutStep[] = [];
+  const run = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      const step = steps[i];
+      if (step.durationType === 'repeat') {
+        // The first pass through the repeated steps has already been emitted.
+        for (let pass = 1; pass < (step.repeatCount ?? 1); pass++) {
+          run(step.durationValue, i);
+        }
+      } else {
+        out.push(step);
+      }
+    }
+  };
+  run(0, steps.length);
+  return out;
+}
+
+describe('FIT export', () => {
+  it('round-trips an interval workout with a repeat step', () => {
+    const workout = makeIntervals(profile, { repeats: 5, hardSecs: 60, easySecs: 60, name: 'Intervals' });
+    const decoded = decodeFitWorkout(encodeFitWorkout(workout, { timeCreated }));
+
+    expect(decoded.name).toBe('Intervals');
+    expect(decoded.timeCreated.toISOString()).toBe(timeCreated.toISOString());
+    expect(decoded.numValidSteps).toBe(decoded.steps.length);
+
+    const repeat = decoded.steps.find((step) => step.durationType === 'repeat');
+    expect(repeat).toBeDefined();
+    expect(repeat?.durationValue).toBe(1);
+    expect(repeat?.repeatCount).toBe(workout.segments.filter((segment) => segment.phase === 'work').length);
+    expect(decoded.steps[1].name).toBe('Hard @ 2.5 mph');
+
+    const timeline = expand(decoded.steps);
+    expect(timeline.map((step) => step.durationValue / 1000)).toEqual(workout.segments.map((segment) => segment.secs));
+    timeline.forEach((step, index) => {
+      expect(step.speedLow).toBeCloseTo(workout.segments[index].speed * 0.44704, 3);
+    });
+    expect(timeline[0].intensity).toBe('warmup');
+    expect(timeline[timeline.length - 1].intensity).toBe('cooldown');
+  });
+
+  it('writes the final timeline step by step when safety changed the plan', () => {
+    const clamped = makeIntervals({ ...profile, rampLimitPerChange: 0.5 }, { repeats: 4, hardSecs: 60, easySecs: 60 });
+    expect(clamped.segments.some((segment) => segment.safety?.clamped)).toBe(true);
+    const decoded = decodeFitWorkout(encodeFitWorkout(clamped, { timeCreated }));
+
+    expect(decoded.steps.every((step) => step.durationType === 'time')).toBe(true);
+    expect(decoded.steps.map((step) => step.name)).toEqual(clamped.segments.map((segment) => segment.cue));
+  });
+
+  it('rejects files with a bad CRC', () => {
+    const workout = makeSteady(profile, { totalMins: 20 });
+    const bytes = encodeFitWorkout(workout, { timeCreated });
+    bytes[20] ^= 0xff;
+
+    expect(() => decodeFitWorkout(bytes)).toThrow(/CRC/);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'vitest';
-import { quantizeDown } from '../src/index.js';
+import {
+  type DeviceProfile,
+  type QuantizeStrategy,
+  makeIntervals,
+  makeSteady,
+  quantize,
+  quantizeDown,
+} from '../src/index.js';
 
 describe('quantizeDown', () => {
   it('returns the largest allowed speed less than or equal to target', () => {
@@ -14,3 +21,61 @@ describe('quantizeDown', () => {
     expect(quantizeDown([0.8, 1, 1.2], 1)).toBe(1);
   });
 });
+
+describe('quantize', () => {
+  const speeds = [1, 1.5, 2, 2.5, 3];
+
+  it('rounds down, to the nearest, or up', () => {
+    expect(quantize(speeds, 2.2, 'down')).toBe(2);
+    expect(quantize(speeds, 2.2, 'nearest')).toBe(2);
+    expect(quantize(speeds, 2.4, 'nearest')).toBe(2.5);
+    expect(quantize(speeds, 2.2, 'up')).toBe(2.5);
+  });
+
+  it('stays within the allowed range', () => {
+    expect(quantize(speeds, 0.5, 'up')).toBe(1);
+    expect(quantize(speeds, 3.4, 'up')).toBe(3);
+  });
+});
+
+describe('quantization strategies', () => {
+  const profile: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3.5] };
+
+  it('snaps interval targets according to the profile strategy', () => {
+    const hardSpeed = (quantize: QuantizeStrategy) =>
+      makeIntervals({ ...profile, quantize }, { repeats: 1, hardIntensity: 0.9 }).segments.find(
+        (segment) => segment.phase === 'work',
+      )?.speed;
+    expect(hardSpeed('down')).toBe(2.5);
+    expect(hardSpeed('nearest')).toBe(3.5);
+    expect(hardSpeed('up')).toBe(3.5);
+  });
+
+  it('dithers between bracketing speeds to hit the time-weighted target', () => {
+    const workout = makeSteady({ ...profile, quantize: 'dither' }, { totalMins: 30, speed: 2.2, addStrides: false });
+    const cruise = workout.segments.filter((segment) => segment.label === 'Cruise');
+    expect(cruise.map((segment) => segment.speed)).toEqual([2, 2.5]);
+    expect(cruise.map((segment) => segment.secs)).toEqual([720, 480]);
+    expect(workout.totalSecs).toBe(30 * 60);
+  });
+
+  it('falls back to the nearest speed when a dithered slice would be too short', () => {
+    const workout = makeSteady(
+      { ...profile, quantize: 'dither', minSegmentSec: 300 },
+      { totalMins: 30, speed: 2.05, addStrides: false },
+    );
+    const cruise = workout.segments.filter((segment) => segment.label === 'Cruise');
+    expect(cruise).toHaveLength(1);
+    expect(cruise[0].speed).toBe(2);
+  });
+
+  it('does not dither across a gap wider than the ramp limit', () => {
+    const workout = makeSteady(
+      { ...profile, quantize: 'dither', rampLimitPerChange: 0.5 },
+      { totalMins: 30, speed: 3, addStrides: false },
+    );
+    const cruise = workout.segments.filter((segment) => segment.label === 'Cruise');
+    expect(cruise).toHaveLength(1);
+    expect(cruise[0].targetSpeed).toBe(3);
+  });
+});
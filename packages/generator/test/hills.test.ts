@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, describe as describeWorkout, makeHills } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Treadmill',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  inclines: [0, 2, 4, 6, 8],
+  minSegmentSec: 30,
+  rampLimitPerChange: 1,
+};
+
+describe('makeHills', () => {
+  it('snaps every incline to the allowed list', () => {
+    const workout = makeHills({ ...profile, inclines: [0, 3, 7] }, { pattern: 'rolling', repeats: 5, topIncline: 0.9 });
+    for (const segment of workout.segments) {
+      expect([0, 3, 7]).toContain(segment.incline);
+    }
+  });
+
+  it('shows each incline once per text line', () => {
+    const lines = describeWorkout(makeHills(profile, { pattern: 'repeats', repeats: 2 })).split('\n');
+    const climb = lines.find((line) => line.includes('Hill 1/2'));
+    expect(climb?.match(/% incline/g)).toHaveLength(1);
+  });
+
+  it('alternates steepest hills with flat recoveries in repeats mode', () => {
+    const workout = makeHills(profile, {
+      pattern: 'repeats',
+      warmupMins: 0,
+      cooldownMins: 0,
+      repeats: 3,
+      hillSecs: 60,
+      recoverySecs: 60,
+    });
+
+    expect(workout.segments.map((segment) => segment.incline)).toEqual([8, 0, 8, 0, 8, 0]);
+    expect(workout.totalSecs).toBe(6 * 60);
+  });
+
+  it('climbs a non-decreasing ladder', () => {
+    const workout = makeHills(profile, { pattern: 'ladder', warmupMins: 0, cooldownMins: 0, repeats: 4 });
+    const inclines = workout.segments.map((segment) => segment.incline ?? 0);
+    expect(inclines).toEqual([...inclines].sort((a, b) => a - b));
+    expect(inclines[inclines.length - 1]).toBe(8);
+  });
+
+  it('starts the ladder above the flat grade', () => {
+    const workout = makeHills(profile, { pattern: 'ladder', repeats: 6 });
+    const climbs = workout.segments.filter((segment) => segment.phase === 'work');
+    expect(climbs.map((segment) => segment.incline)).toEqual([2, 2, 4, 4, 6, 8]);
+  });
+
+  it('clamps incline jumps that exceed the incline ramp limit', () => {
+    const workout = makeHills(
+      { ...profile, inclineRampLimitPerChange: 2 },
+      { pattern: 'repeats', warmupMins: 1, cooldownMins: 0, repeats: 1, hillSecs: 60, recoverySecs: 60 },
+    );
+
+    expect(workout.segments[1].incline).toBe(2);
+    expect(workout.segments[1].cue).toContain('(clamped)');
+  });
+
+  it('requires inclines on the profile', () => {
+    expect(() => makeHills({ ...profile, inclines: undefined })).toThrow(/inclines/);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, encodeIcsCalendar, makePlan, makeSteady } from '../src/index.js';
+
+const profile: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3] };
+const timestamp = new Date(Date.UTC(2026, 9, 1, 12, 0, 0));
+
+describe('ICS export', () => {
+  it('writes one event per dated workout with its duration and timeline', () => {
+    const workout = makeSteady(profile, { name: 'Easy, steady; walk', totalMins: 30 });
+    const ics = encodeIcsCalendar([{ date: '2026-11-02', workout }], { timestamp, startTime: '6:30' });
+    const unfolded = ics.replace(/\r\n /g, '');
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(unfolded).toContain('DTSTAMP:20261001T120000Z\r\n');
+    expect(unfolded).toContain('DTSTART:20261102T063000\r\n');
+    expect(unfolded).toContain('DURATION:PT1800S\r\n');
+    expect(unfolded).toContain('SUMMARY:Easy\\, steady\\; walk\r\n');
+    expect(unfolded).toContain('DESCRIPTION:00:00–05:00  @ 1.5 mph');
+    expect(unfolded).toContain('\\nTotal 30:00\\, ');
+    expect(ics).not.toContain('BEGIN:VALARM');
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const workout = makeSteady(profile, { totalMins: 30 });
+    const ics = encodeIcsCalendar([{ date: '2026-11-02', workout }], { timestamp });
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+  });
+
+  it('adds an optional reminder to each event of a plan', () => {
+    const plan = makePlan(profile, { weeks: 2, weekdays: ['mon', 'thu'], startDate: '2026-11-02' });
+    const ics = encodeIcsCalendar(plan.sessions, { timestamp, alarmMinutes: 30, calendarName: 'Walkpad plan' });
+
+    expect(ics).toContain('X-WR-CALNAME:Walkpad plan\r\n');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(4);
+    expect(ics.match(/TRIGGER:-PT30M/g)).toHaveLength(4);
+    expect(ics.match(/DTSTART:\d+/g)).toEqual([
+      'DTSTART:20261102',
+      'DTSTART:20261105',
+      'DTSTART:20261109',
+      'DTSTART:20261112',
+    ]);
+  });
+
+  it('rejects malformed dates and times', () => {
+    const workout = makeSteady(profile);
+    expect(() => encodeIcsCalendar([{ date: '2026/11/02', workout }])).toThrow(/Invalid date/);
+    expect(() => encodeIcsCalendar([{ date: '2026-11-02', workout }], { startTime: '25:00' })).toThrow(/Invalid time/);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  detectImportFormat,
+  encodeZwoWorkout,
+  importWorkout,
+  makeIntervals,
+} from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 2,
+};
+
+const tcx = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <Workouts>
+    <Workout Sport="Running">
+      <Name>Coach &amp; Co</Name>
+      <Step xsi:type="Step_t">
+        <StepId>1</StepId>
+        <Name>Warm up</Name>
+        <Duration xsi:type="Time_t"><Seconds>300</Seconds></Duration>
+        <Intensity>Active</Intensity>
+        <Target xsi:type="None_t"/>
+      </Step>
+      <Step xsi:type="Repeat_t">
+        <StepId>4</StepId>
+        <Repetitions>3</Repetitions>
+        <Child xsi:type="Step_t">
+          <StepId>2</StepId>
+          <Duration xsi:type="Distance_t"><Meters>400</Meters></Duration>
+          <Intensity>Active</Intensity>
+          <Target xsi:type="Speed_t">
+            <SpeedZone xsi:type="CustomSpeedZone_t">
+              <LowInMetersPerSecond>1.1</LowInMetersPerSecond>
+              <HighInMetersPerSecond>1.135</HighInMetersPerSecond>
+            </SpeedZone>
+          </Target>
+        </Child>
+        <Child xsi:type="Step_t">
+          <StepId>3</StepId>
+          <Duration xsi:type="Time_t"><Seconds>120</Seconds></Duration>
+          <Intensity>Resting</Intensity>
+          <Target xsi:type="None_t"/>
+        </Child>
+      </Step>
+    </Workout>
+  </Workouts>
+</TrainingCenterDatabase>`;
+
+describe('importWorkout', () => {
+  it('reads CSV rows with speeds, paces, and labels', () => {
+    const csv = ['duration,target,label', '5:00,1.6', '90,20:00/mi,Push', '60,2.9', '300,1.5'].join('\n');
+    const workout = importWorkout(profile, csv, { format: 'csv', name: 'Coach' });
+
+    expect(workout.name).toBe('Coach');
+    expect(workout.segments.map((segment) => segment.secs)).toEqual([300, 90, 60, 300]);
+    expect(workout.segments.map((segment) => segment.speed)).toEqual([1.5, 3, 2.5, 1.5]);
+    expect(workout.segments[0].targetSpeed).toBe(1.6);
+    expect(workout.segments[1].label).toBe('Push');
+    expect(workout.segments.map((segment) => segment.phase)).toEqual(['warmup', 'work', 'work', 'cooldown']);
+    expect(workout.plannedSecs).toBe(750);
+  });
+
+  it('reports the CSV line of a bad row', () => {
+    expect(() => importWorkout(profile, '60,2\n90,fast\n', { format: 'csv' })).toThrow(/CSV line 2/);
+  });
+
+  it('reads TCX repeats, distance steps, and speed zones', () => {
+    const workout = importWorkout(profile, tcx, { format: 'tcx' });
+
+    expect(workout.name).toBe('Coach & Co');
+    expect(workout.blocks?.[1]).toMatchObject({ type: 'repeat', count: 3 });
+    expect(workout.segments).toHaveLength(1 + 3 * 2);
+    expect(workout.segments[0]).toMatchObject({ secs: 300, speed: 1, phase: 'warmup', label: 'Warm up' });
+    expect(workout.segments[1]).toMatchObject({ secs: 358, speed: 2.5, phase: 'work', repeat: { index: 1, count: 3 } });
+    expect(workout.segments[2]).toMatchObject({ secs: 120, speed: 1, phase: 'recovery' });
+  });
+
+  it('round-trips a .zwo export back into the same timeline', () => {
+    const original = makeIntervals(profile, { repeats: 4, hardSecs: 90, easySecs: 60 });
+    const imported = importWorkout(profile, encodeZwoWorkout(original, { referenceSpeed: 3 }), { format: 'zwo' });
+
+    expect(imported.name).toBe(original.name);
+    expect(imported.segments.map((segment) => [segment.secs, segment.speed, segment.phase])).toEqual(
+      original.segments.map((segment) => [segment.secs, segment.speed, segment.phase]),
+    );
+  });
+
+  it('turns .zwo ramps into a staircase of device speeds', () => {
+    const zwo = `<workout_file><name>Ramp</name><workout>
+      <Warmup Duration="600" PowerLow="0.4" PowerHigh="0.8"/>
+      <SteadyState Duration="300" Power="0.9"/>
+    </workout></workout_file>`;
+    const workout = importWorkout(profile, zwo, { format: 'zwo' });
+    const warmup = workout.segments.filter((segment) => segment.phase === 'warmup');
+
+    expect(warmup.length).toBeGreaterThan(1);
+    expect(warmup[0].speed).toBeLessThan(warmup[warmup.length - 1].speed);
+    expect(warmup.reduce((sum, segment) => sum + segment.secs, 0)).toBe(600);
+  });
+
+  it('rejects malformed XML and detects formats from file names', () => {
+    expect(() => importWorkout(profile, '<workout_file><workout>', { format: 'zwo' })).toThrow(/Invalid XML/);
+    expect(detectImportFormat('plans/Session.ZWO')).toBe('zwo');
+    expect(detectImportFormat('notes.txt')).toBeUndefined();
+  });
+});
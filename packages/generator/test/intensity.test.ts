@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  compileWorkoutSpec,
+  intensitySpeed,
+  makeIntervals,
+  makeSteady,
+  warmupSpeed,
+} from '../src/index.js';
+
+// A pad whose slowest speed is high, where max-relative easy targets collapse onto the minimum.
+const profile: DeviceProfile = { name: 'Pad', units: 'kph', speeds: [4, 5, 6, 7, 8, 9, 10] };
+
+describe('intensity reference', () => {
+  it('defaults to fractions of the top speed', () => {
+    expect(intensitySpeed(profile, 0.3)).toBeCloseTo(3);
+    expect(warmupSpeed(profile)).toBeCloseTo(6.1);
+  });
+
+  it('scales fractions across the speed range', () => {
+    const range: DeviceProfile = { ...profile, intensityReference: 'range' };
+    expect(intensitySpeed(range, 0)).toBe(4);
+    expect(intensitySpeed(range, 0.5)).toBe(7);
+    expect(warmupSpeed(range)).toBeCloseTo(6.1);
+
+    const easy = (reference: DeviceProfile) =>
+      makeIntervals(reference, { repeats: 1, easyIntensity: 0.3 }).segments.find(
+        (segment) => segment.phase === 'recovery',
+      )?.speed;
+    expect(easy(profile)).toBe(4);
+    expect(easy(range)).toBe(5);
+  });
+
+  it('scales fractions of a threshold speed', () => {
+    const threshold: DeviceProfile = { ...profile, intensityReference: 'threshold', thresholdSpeed: 8 };
+    expect(intensitySpeed(threshold, 0.9)).toBeCloseTo(7.2);
+    expect(warmupSpeed(threshold)).toBeCloseTo(5.4);
+
+    const workout = makeSteady(threshold, { intensity: 1, addStrides: false });
+    expect(workout.segments.map((segment) => segment.speed)).toEqual([5, 8, 5]);
+    expect(compileWorkoutSpec(threshold, '10m @100%').segments[0].speed).toBe(8);
+  });
+
+  it('requires a threshold speed for the threshold reference', () => {
+    expect(() => makeSteady({ ...profile, intensityReference: 'threshold' })).toThrow(/thresholdSpeed/);
+  });
+});
@@ -73,3 +73,56 @@ describe('makeIntervals', () => {
     expect(workout.segments[0].secs).toBe(60 + 60 + 30);
   });
 });
+
+describe('structured intervals', () => {
+  const profile: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4] };
+  const opts = { warmupMins: 0, cooldownMins: 0, repeats: 5, hardSecs: 60, easySecs: 60 };
+  const work = (workout: ReturnType<typeof makeIntervals>) =>
+    workout.segments.filter((segment) => segment.phase === 'work');
+
+  it('builds pyramids and ladders from the shortest rep', () => {
+    const lengths = (structure: 'pyramid' | 'ascending' | 'descending') =>
+      work(makeIntervals(profile, { ...opts, structure })).map((segment) => segment.secs);
+    expect(lengths('pyramid')).toEqual([60, 90, 120, 90, 60]);
+    expect(lengths('ascending')).toEqual([60, 90, 120, 150, 180]);
+    expect(lengths('descending')).toEqual([180, 150, 120, 90, 60]);
+    expect(makeIntervals(profile, { ...opts, structure: 'pyramid' }).totalSecs).toBe(420 + 5 * 60);
+  });
+
+  it('keeps Hard i/n numbering across varied reps and sets', () => {
+    const workout = makeIntervals(profile, { ...opts, repSecs: [60, 120], sets: 2, setRestSecs: 60 });
+    expect(work(workout).map((segment) => segment.cue)).toEqual([
+      'Hard 1/2 @ 3 mph',
+      'Hard 2/2 @ 3 mph',
+      'Hard 1/2 @ 3 mph',
+      'Hard 2/2 @ 3 mph',
+    ]);
+    expect(work(workout)[3].position).toEqual([
+      { kind: 'set', index: 2, count: 2 },
+      { kind: 'repeat', index: 2, count: 2 },
+    ]);
+  });
+
+  it('raises the hard intensity rep by rep and scales recoveries', () => {
+    const workout = makeIntervals(profile, {
+      ...opts,
+      repeats: 3,
+      hardIntensity: 0.6,
+      hardIntensityStep: 0.125,
+      recoveryRatio: 0.5,
+      structure: 'ascending',
+    });
+    expect(work(workout).map((segment) => segment.speed)).toEqual([2, 2.5, 3]);
+    const recoveries = workout.segments.filter((segment) => segment.phase === 'recovery');
+    expect(recoveries.map((segment) => segment.secs)).toEqual([30, 45, 60]);
+  });
+
+  it('rejects structured reps measured by distance', () => {
+    expect(() => makeIntervals(profile, { structure: 'pyramid', hardDistance: 400 })).toThrow('need timed reps');
+  });
+
+  it('rejects fewer than one repeat', () => {
+    expect(() => makeIntervals(profile, { structure: 'pyramid', repeats: 0 })).toThrow('at least 1');
+    expect(() => makeIntervals(profile, { repeats: 2.5 })).toThrow('at least 1');
+  });
+});
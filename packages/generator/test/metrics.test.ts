@@ -0,0 +1,75 @@
+import { describe as suite, expect, it } from 'vitest';
+import { type DeviceProfile, acsmVo2, computeMetrics, describe, makeHills, makeSteady } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'kph',
+  speeds: [3, 4, 5, 6, 9],
+  inclines: [0, 5, 10],
+  minSegmentSec: 30,
+  rampLimitPerChange: 6,
+};
+
+suite('ACSM equations', () => {
+  it('uses the walking equation below 134 m/min and the running equation above', () => {
+    expect(acsmVo2(80, 0)).toBeCloseTo(11.5, 5);
+    expect(acsmVo2(80, 0.05)).toBeCloseTo(18.7, 5);
+    expect(acsmVo2(160, 0)).toBeCloseTo(35.5, 5);
+    expect(acsmVo2(160, 0.05)).toBeCloseTo(42.7, 5);
+    expect(acsmVo2(80, -0.05)).toBeCloseTo(11.5, 5);
+  });
+});
+
+suite('computeMetrics', () => {
+  it('reports per-segment and cumulative distance', () => {
+    const metrics = computeMetrics({
+      units: 'kph',
+      segments: [
+        { secs: 600, speed: 6 },
+        { secs: 1800, speed: 4 },
+      ],
+    });
+
+    expect(metrics).toEqual({
+      distanceUnit: 'km',
+      distance: 3,
+      segments: [
+        { distance: 1, cumulativeDistance: 1 },
+        { distance: 2, cumulativeDistance: 3 },
+      ],
+    });
+  });
+
+  it('adds energy estimates when body mass is known, including incline', () => {
+    const flat = computeMetrics({ units: 'kph', segments: [{ secs: 600, speed: 4.8 }] }, { massKg: 70 });
+    const hill = computeMetrics({ units: 'kph', segments: [{ secs: 600, speed: 4.8, incline: 5 }] }, { massKg: 70 });
+
+    // 4.8 kph = 80 m/min: 11.5 ml/kg/min flat, 18.7 ml/kg/min at 5%.
+    expect(flat.kcal).toBeCloseTo(40.3, 1);
+    expect(hill.kcal).toBeCloseTo(65.5, 1);
+    expect(hill.segments[0].cumulativeKcal).toBe(hill.kcal);
+  });
+});
+
+suite('workout metrics', () => {
+  it('attaches metrics to generated workouts and summarises them in describe()', () => {
+    const workout = makeSteady({ ...profile, user: { massKg: 70 } }, { totalMins: 30, addStrides: false });
+    const lines = describe(workout).split('\n');
+
+    expect(workout.metrics?.distance).toBeCloseTo(
+      workout.segments.reduce((sum, segment) => sum + (segment.speed * segment.secs) / 3600, 0),
+      3,
+    );
+    expect(workout.metrics?.segments).toHaveLength(workout.segments.length);
+    expect(lines[lines.length - 1]).toBe(
+      `Total 30:00, ${workout.metrics?.distance.toFixed(2)} km, ~${Math.round(workout.metrics?.kcal ?? 0)} kcal`,
+    );
+  });
+
+  it('leaves kcal out without a body mass', () => {
+    const workout = makeHills(profile, { pattern: 'repeats', repeats: 2 });
+
+    expect(workout.metrics?.kcal).toBeUndefined();
+    expect(describe(workout).split('\n').pop()).toMatch(/^Total \d\d:\d\d, \d+\.\d\d km$/);
+  });
+});
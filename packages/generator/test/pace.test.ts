@@ -0,0 +1,56 @@
+import { describe as suite, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  describe,
+  formatPace,
+  makeIntervals,
+  makeSteady,
+  paceToSpeed,
+  parsePace,
+  speedToPace,
+} from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4],
+  minSegmentSec: 30,
+  rampLimitPerChange: 3,
+};
+
+suite('pace helpers', () => {
+  it('parses paces with and without units', () => {
+    expect(parsePace('12:00/mi')).toEqual({ secs: 720, unit: 'mi' });
+    expect(parsePace('7:30 min/km')).toEqual({ secs: 450, unit: 'km' });
+    expect(parsePace('15:00', 'km')).toEqual({ secs: 900, unit: 'km' });
+    expect(parsePace('1:05:00/mi')).toEqual({ secs: 3900, unit: 'mi' });
+    expect(() => parsePace('fast')).toThrow(/Invalid pace/);
+    expect(() => parsePace('12:75/mi')).toThrow(/Invalid pace/);
+  });
+
+  it('converts between pace and speed across units', () => {
+    expect(paceToSpeed({ secs: 1200, unit: 'mi' }, 'mph')).toBe(3);
+    expect(paceToSpeed({ secs: 720, unit: 'km' }, 'kph')).toBe(5);
+    expect(paceToSpeed({ secs: 1200, unit: 'mi' }, 'kph')).toBeCloseTo(4.828, 3);
+    expect(formatPace(speedToPace(2.5, 'mph'))).toBe('24:00/mi');
+    expect(formatPace(speedToPace(0.5, 'kph'))).toBe('2:00:00/km');
+  });
+});
+
+suite('absolute targets', () => {
+  it('uses absolute speeds ahead of intensity fractions', () => {
+    const workout = makeIntervals(profile, { repeats: 2, hardSpeed: 3.2, easySpeed: 1.6, hardIntensity: 0.5 });
+    const hard = workout.segments.find((segment) => segment.phase === 'work');
+    const easy = workout.segments.find((segment) => segment.phase === 'recovery');
+
+    expect(hard).toMatchObject({ speed: 3, targetSpeed: 3.2 });
+    expect(easy).toMatchObject({ speed: 1.5, targetSpeed: 1.6 });
+  });
+
+  it('shows pace next to speed in segments and describe()', () => {
+    const workout = makeSteady(profile, { totalMins: 20, speed: 3, addStrides: false });
+
+    expect(workout.segments[1]).toMatchObject({ speed: 3, pace: '20:00/mi' });
+    expect(describe(workout).split('\n')[1]).toBe('05:00–15:00  @ 3 mph (20:00/mi)  Cruise @ 3 mph');
+  });
+});
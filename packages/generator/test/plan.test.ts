@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, formatPlanSummary, makePlan, parseWeekdays, planWeeks } from '../src/index.js';
+
+const profile: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4] };
+
+describe('planWeeks', () => {
+  it('builds load, drops every fourth week, and ends with a taper', () => {
+    const weeks = planWeeks(8);
+    expect(weeks.map((week) => week.kind)).toEqual([
+      'build',
+      'build',
+      'build',
+      'recovery',
+      'build',
+      'build',
+      'build',
+      'taper',
+    ]);
+    expect(weeks.map((week) => week.volume)).toEqual([1, 1.1, 1.2, 0.84, 1.3, 1.4, 1.5, 0.9]);
+    expect(weeks[3].intensity).toBe(0);
+    expect(weeks[7].intensity).toBe(weeks[6].intensity);
+  });
+
+  it('skips the taper for short plans', () => {
+    expect(planWeeks(3).map((week) => week.kind)).toEqual(['build', 'build', 'build']);
+  });
+});
+
+describe('makePlan', () => {
+  it('schedules the goal rotation on evenly spread dates', () => {
+    const plan = makePlan(profile, { weeks: 2, daysPerWeek: 3, startDate: '2026-12-28' });
+    expect(plan.sessions.map((session) => session.date)).toEqual([
+      '2026-12-28',
+      '2026-12-30',
+      '2027-01-01',
+      '2027-01-04',
+      '2027-01-06',
+      '2027-01-08',
+    ]);
+    expect(plan.sessions.map((session) => session.kind)).toEqual([
+      'intervals',
+      'steady',
+      'progression',
+      'intervals',
+      'steady',
+      'progression',
+    ]);
+    expect(plan.sessions[3].workout.name).toBe('Week 2 Intervals');
+  });
+
+  it('places sessions on the given weekdays, starting from the start date', () => {
+    // 2026-11-04 is a Wednesday, so the first Monday session falls in the following week.
+    const plan = makePlan(profile, { weeks: 1, weekdays: parseWeekdays('fri,mon,wednesday'), startDate: '2026-11-04' });
+    expect(plan.sessions.map((session) => session.date)).toEqual(['2026-11-04', '2026-11-06', '2026-11-09']);
+  });
+
+  it('rejects unknown weekdays', () => {
+    expect(parseWeekdays('Tues, thurs')).toEqual(['tue', 'thu']);
+    expect(() => parseWeekdays('mon,fun')).toThrow(/Invalid weekday "fun"/);
+  });
+
+  it('ramps volume and intensity from week to week', () => {
+    const plan = makePlan(profile, { weeks: 3, daysPerWeek: 1, startDate: '2026-11-02' });
+    const hard = plan.sessions.map((session) => session.workout.segments.find((segment) => segment.phase === 'work'));
+    const totals = plan.sessions.map((session) => session.workout.totalSecs);
+    expect(totals[2]).toBeGreaterThan(totals[0]);
+    expect(hard[2]?.targetSpeed).toBeGreaterThan(hard[0]?.targetSpeed ?? 0);
+  });
+
+  it('rejects invalid days and dates', () => {
+    expect(() => makePlan(profile, { daysPerWeek: 8, startDate: '2026-11-02' })).toThrow(/Days per week/);
+    expect(() => makePlan(profile, { startDate: '2026-02-30' })).toThrow(/Invalid date/);
+  });
+
+  it('summarizes sessions in a table with totals', () => {
+    const summary = formatPlanSummary(makePlan(profile, { weeks: 1, daysPerWeek: 2, startDate: '2026-11-02' }));
+    const lines = summary.split('\n');
+    expect(lines[0]).toMatch(/^Date\s+Week\s+Phase\s+Workout\s+Time\s+Distance$/);
+    expect(lines[1]).toMatch(/^2026-11-02\s+1\s+build\s+Week 1 Intervals\s+0:\d\d:\d\d\s+\d+\.\d\d mi$/);
+    expect(lines[3]).toMatch(/^2 sessions over 1 week, /);
+  });
+});
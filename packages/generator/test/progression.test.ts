@@ -13,7 +13,7 @@ describe('makeProgression', () => {
   it('builds a non-decreasing progression ladder with correct timing', () => {
     const workout = makeProgression(profile, { totalMins: 30, steps: 5, topIntensity: 0.85 });
 
-    const stepSegments = workout.segments.filter((segment) => segment.cue?.startsWith('Step'));
+    const stepSegments = workout.segments.filter((segment) => segment.phase === 'step');
     expect(stepSegments).toHaveLength(5);
 
     const speeds = stepSegments.map((segment) => segment.speed);
@@ -26,4 +26,76 @@ describe('makeProgression', () => {
     expect(workout.totalSecs).toBe(30 * 60);
     expect(workout.segments[workout.segments.length - 1].speed).toBe(workout.segments[0].speed);
   });
+
+  it('fits a custom warm-up and cool-down into short sessions', () => {
+    const workout = makeProgression(profile, { totalMins: 10, steps: 2, warmupMins: 1, cooldownMins: 20 });
+    expect(workout.segments[0]).toMatchObject({ phase: 'warmup', secs: 60 });
+    const last = workout.segments[workout.segments.length - 1];
+    expect(last.phase).toBe('cooldown');
+    expect(last.secs).toBe(9 * 60);
+    expect(workout.totalSecs).toBe(10 * 60);
+  });
+
+  describe('shapes', () => {
+    const pad: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4] };
+    const steps = (workout: ReturnType<typeof makeProgression>) =>
+      workout.segments.filter((segment) => segment.phase === 'step');
+
+    it('reverses the ladder for a descending shape', () => {
+      const ascending = steps(makeProgression(pad, { steps: 4 })).map((segment) => segment.speed);
+      const descending = steps(makeProgression(pad, { steps: 4, shape: 'descending' })).map((segment) => segment.speed);
+      expect(descending).toEqual([...ascending].reverse());
+    });
+
+    it('climbs to the middle step and back down for a pyramid', () => {
+      const workout = makeProgression(pad, { steps: 5, shape: 'pyramid' });
+      expect(steps(workout).map((segment) => segment.speed)).toEqual([2, 2.5, 3, 2.5, 2]);
+      expect(steps(workout).map((segment) => segment.cue)).toEqual([
+        'Step 1/5 @ 2 mph',
+        'Step 2/5 @ 2.5 mph',
+        'Step 3/5 @ 3 mph',
+        'Step 4/5 @ 2.5 mph',
+        'Step 5/5 @ 2 mph',
+      ]);
+    });
+
+    it('holds at the top speed after the climb', () => {
+      const workout = makeProgression(pad, { totalMins: 30, steps: 3, shape: 'hold', holdMins: 8 });
+      const hold = workout.segments.find((segment) => segment.label === 'Hold');
+      expect(hold).toMatchObject({ secs: 8 * 60, speed: 3 });
+      expect(Math.max(...steps(workout).map((segment) => segment.speed))).toBeLessThan(3);
+      expect(workout.totalSecs).toBe(30 * 60);
+    });
+
+    it('leaves the climb half the work time when the hold would take it all', () => {
+      const workout = makeProgression(pad, { totalMins: 15, shape: 'hold' });
+      expect(workout.segments.find((segment) => segment.label === 'Hold')?.secs).toBe(150);
+      expect(steps(workout)).toHaveLength(4);
+      expect(steps(workout).every((segment) => segment.secs > 30)).toBe(true);
+      expect(workout.totalSecs).toBe(15 * 60);
+    });
+
+    it('leaves out steps that get no time in very short sessions', () => {
+      const workout = makeProgression(pad, { totalMins: 0.05, steps: 5, warmupMins: 0, cooldownMins: 0 });
+      expect(workout.segments.every((segment) => segment.secs > 0)).toBe(true);
+      expect(steps(workout).map((segment) => segment.cue)).toEqual([
+        'Step 1/3 @ 2 mph',
+        'Step 2/3 @ 2.5 mph',
+        'Step 3/3 @ 2.5 mph',
+      ]);
+      expect(workout.totalSecs).toBe(3);
+    });
+
+    it('weights step time towards the faster steps and keeps the total exact', () => {
+      const workout = makeProgression(pad, {
+        totalMins: 20.1,
+        steps: 3,
+        weighting: 'top',
+        warmupMins: 2,
+        cooldownMins: 2,
+      });
+      expect(steps(workout).map((segment) => segment.secs)).toEqual([161, 322, 483]);
+      expect(workout.totalSecs).toBe(1206);
+    });
+  });
 });
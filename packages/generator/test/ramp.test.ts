@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, makeIntervals } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 0.5,
+  rampPolicy: 'step',
+  rampStepSecs: 15,
+};
+
+const opts = {
+  warmupMins: 2,
+  cooldownMins: 0,
+  repeats: 1,
+  hardSecs: 120,
+  easySecs: 120,
+  hardIntensity: 1,
+  easyIntensity: 0.34,
+};
+
+describe('ramp stepping', () => {
+  it('steps through allowed speeds instead of clamping the rep', () => {
+    const workout = makeIntervals(profile, opts);
+    const speeds = workout.segments.map((segment) => segment.speed);
+
+    expect(speeds).toEqual([1.5, 2, 2.5, 3, 2.5, 2, 1.5, 1]);
+    expect(workout.segments.every((segment) => !segment.safety?.clamped)).toBe(true);
+    for (let i = 1; i < speeds.length; i++) {
+      expect(Math.abs(speeds[i] - speeds[i - 1])).toBeLessThanOrEqual(0.5);
+    }
+  });
+
+  it('keeps the total duration and reports ramp time', () => {
+    const workout = makeIntervals(profile, opts);
+    const ramps = workout.segments.filter((segment) => segment.phase === 'ramp');
+
+    expect(workout.totalSecs).toBe(120 + 120 + 120);
+    expect(ramps).toHaveLength(5);
+    expect(workout.rampSecs).toBe(5 * 15);
+    expect(workout.segments.find((segment) => segment.phase === 'work')?.secs).toBe(120 - 2 * 15);
+  });
+
+  it('falls back to clamping when the segment cannot absorb the ramp', () => {
+    const workout = makeIntervals(profile, { ...opts, hardSecs: 40 });
+
+    expect(workout.segments[1].speed).toBe(2);
+    expect(workout.segments[1].safety?.clamped).toBe(true);
+  });
+
+  it('leaves the default clamp policy unchanged', () => {
+    const workout = makeIntervals({ ...profile, rampPolicy: undefined }, opts);
+
+    expect(workout.segments.some((segment) => segment.phase === 'ramp')).toBe(false);
+    expect(workout.rampSecs).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  decodeFitWorkout,
+  encodeFitWorkout,
+  makeHills,
+  makeIntervals,
+  retarget,
+} from '../src/index.js';
+
+const pad: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4] };
+const treadmill: DeviceProfile = {
+  name: 'Treadmill',
+  units: 'kph',
+  speeds: [2, 4, 6, 8, 10, 12, 14, 16],
+  minSegmentSec: 30,
+  rampLimitPerChange: 4,
+};
+
+describe('retarget', () => {
+  it('keeps each segment at the same fraction of the reference speed', () => {
+    const workout = makeIntervals(pad, { repeats: 2, hardIntensity: 0.75, easyIntensity: 0.5 });
+    const moved = retarget(workout, pad, treadmill);
+
+    expect(moved.units).toBe('kph');
+    expect(moved.totalSecs).toBe(workout.totalSecs);
+    const hard = moved.segments.find((segment) => segment.phase === 'work');
+    const easy = moved.segments.find((segment) => segment.phase === 'recovery');
+    expect(hard).toMatchObject({ speed: 12, targetSpeed: 12, cue: 'Hard 1/2 @ 12 kph' });
+    expect(easy?.speed).toBe(8);
+    expect(moved.blocks?.[1]).toMatchObject({ type: 'repeat', count: 2 });
+  });
+
+  it('quantizes the mapped speeds so exports keep the repeat groups', () => {
+    const workout = makeIntervals(pad, { repeats: 3, hardIntensity: 0.9 });
+    const moved = retarget(workout, pad, {
+      ...treadmill,
+      speeds: [2, 3.5, 5, 6.5, 8, 9.5, 11, 12.5, 14],
+      rampLimitPerChange: 8,
+    });
+    expect(moved.segments.every((segment) => Number.isInteger(segment.speed * 2))).toBe(true);
+
+    const steps = decodeFitWorkout(encodeFitWorkout(moved, { timeCreated: new Date(0) })).steps;
+    expect(steps.find((step) => step.durationType === 'repeat')).toMatchObject({ repeatCount: 3 });
+    expect(steps).toHaveLength(5);
+  });
+
+  it('applies the destination safety rules', () => {
+    const workout = makeIntervals(pad, { repeats: 1, warmupMins: 1, cooldownMins: 0, hardIntensity: 1 });
+    const moved = retarget(workout, pad, { ...treadmill, rampLimitPerChange: 2 });
+    const hard = moved.segments.find((segment) => segment.phase === 'work');
+    expect(hard?.safety?.clamped).toBe(true);
+    expect(hard?.cue).toContain('(clamped)');
+  });
+
+  it('maps workouts without a block tree and snaps inclines to the destination', () => {
+    const hilly: DeviceProfile = { ...pad, inclines: [0, 3, 6, 9] };
+    const workout = makeHills(hilly, { pattern: 'repeats', repeats: 2 });
+    const { blocks: _blocks, ...timeline } = workout;
+
+    const moved = retarget(timeline, hilly, { ...pad, speeds: [1, 2, 3, 4], inclines: [0, 5] });
+    const climb = moved.segments.find((segment) => segment.label === 'Hill');
+    expect(climb?.incline).toBe(5);
+
+    const flat = retarget(timeline, hilly, pad);
+    expect(flat.segments.every((segment) => segment.incline === undefined)).toBe(true);
+    expect(flat.totalSecs).toBe(workout.totalSecs);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, makeIntervals, renderCue } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 1,
+};
+
+describe('segment metadata', () => {
+  it('tags phases, repeat counters and pre-quantization targets', () => {
+    const workout = makeIntervals(profile, { repeats: 2, hardIntensity: 0.9 });
+
+    expect(workout.segments.map((segment) => segment.phase)).toEqual([
+      'warmup',
+      'work',
+      'recovery',
+      'work',
+      'recovery',
+      'cooldown',
+    ]);
+    expect(workout.segments[3].repeat).toEqual({ index: 2, count: 2 });
+    expect(workout.segments[3].targetSpeed).toBe(2.7);
+    expect(workout.segments[3].speed).toBe(2.5);
+  });
+
+  it('flags clamped and merged segments', () => {
+    const workout = makeIntervals(
+      { ...profile, speeds: [1, 2, 3], rampLimitPerChange: 0.5, minSegmentSec: 100 },
+      { warmupMins: 1, cooldownMins: 0, repeats: 1, hardSecs: 60, easySecs: 60, hardIntensity: 1 },
+    );
+
+    expect(workout.segments).toHaveLength(1);
+    expect(workout.segments[0].safety).toEqual({ clamped: true, merged: true });
+  });
+
+  it('renders cues from structured fields', () => {
+    expect(renderCue({ secs: 60, speed: 2.5, phase: 'work', repeat: { index: 3, count: 6 } }, 'mph')).toBe(
+      'Hard 3/6 @ 2.5 mph',
+    );
+    expect(renderCue({ secs: 60, speed: 2, phase: 'recovery', label: 'Flat', incline: 0 }, 'kph')).toBe(
+      'Flat @ 2 kph, 0% incline',
+    );
+    expect(renderCue({ secs: 60, speed: 2, cue: 'Custom', safety: { clamped: true } }, 'mph')).toBe('Custom (clamped)');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  WorkoutSpecError,
+  compileWorkoutSpec,
+  makeIntervals,
+  parseWorkoutSpec,
+} from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 1,
+};
+
+describe('parseWorkoutSpec', () => {
+  it('parses steps, grouped repeats and slash-separated repeat bodies', () => {
+    const nodes = parseWorkoutSpec('5m @warm, 6x(90s @85%, 90s @55%), 2x(4x20s @90% / 40s @cruise), 1m30s @2.5');
+
+    expect(nodes).toHaveLength(4);
+    expect(nodes[0]).toEqual({ type: 'step', secs: 300, target: { type: 'named', name: 'warm' } });
+    expect(nodes[1]).toMatchObject({ type: 'repeat', count: 6 });
+    expect(nodes[2]).toEqual({
+      type: 'repeat',
+      count: 2,
+      body: [
+        {
+          type: 'repeat',
+          count: 4,
+          body: [
+            { type: 'step', secs: 20, target: { type: 'percent', value: 90 } },
+            { type: 'step', secs: 40, target: { type: 'named', name: 'cruise' } },
+          ],
+        },
+      ],
+    });
+    expect(nodes[3]).toEqual({ type: 'step', secs: 90, target: { type: 'speed', value: 2.5 } });
+  });
+
+  it('reports the line and column of syntax errors', () => {
+    try {
+      parseWorkoutSpec('5m @warm,\n  6x(90s @fast, 90s @55%)');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(WorkoutSpecError);
+      expect((error as WorkoutSpecError).line).toBe(2);
+      expect((error as WorkoutSpecError).column).toBe(11);
+    }
+  });
+
+  it('rejects unterminated groups', () => {
+    expect(() => parseWorkoutSpec('3x(60s @hard, 60s @easy')).toThrow(/Expected "\)" but reached the end/);
+  });
+});
+
+describe('compileWorkoutSpec', () => {
+  it('matches the built-in intervals mode for the equivalent notation', () => {
+    const fromSpec = compileWorkoutSpec(profile, '5m @warm, 6x(90s @85%, 90s @55%), 5m @warm');
+    const builtIn = makeIntervals(profile);
+
+    expect(fromSpec.totalSecs).toBe(builtIn.totalSecs);
+    expect(fromSpec.segments.map((segment) => [segment.secs, segment.speed])).toEqual(
+      builtIn.segments.map((segment) => [segment.secs, segment.speed]),
+    );
+  });
+
+  it('expands nested repeats through the safety pipeline', () => {
+    const workout = compileWorkoutSpec(profile, '2x(3x20s @max / 40s @easy)', { name: 'Strides' });
+
+    expect(workout.name).toBe('Strides');
+    expect(workout.totalSecs).toBe(2 * 3 * 60);
+    expect(workout.segments[0].speed).toBe(3);
+    expect(workout.segments[1].speed).toBe(2);
+    expect(workout.segments[1].cue).toContain('(clamped)');
+  });
+});
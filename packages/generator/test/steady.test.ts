@@ -12,10 +12,10 @@ const profile: DeviceProfile = {
 describe('makeSteady', () => {
   it('adds four strides by default when duration allows', () => {
     const workout = makeSteady(profile, { totalMins: 30, intensity: 0.7 });
-    const strideSegments = workout.segments.filter((segment) => segment.cue?.startsWith('Stride'));
+    const strideSegments = workout.segments.filter((segment) => segment.phase === 'stride');
     expect(strideSegments).toHaveLength(4);
 
-    const cruiseSegments = workout.segments.filter((segment) => segment.cue?.includes('Cruise'));
+    const cruiseSegments = workout.segments.filter((segment) => segment.label === 'Cruise');
     expect(cruiseSegments.length).toBeGreaterThan(0);
 
     const strideSpeed = strideSegments[0]?.speed ?? 0;
@@ -28,4 +28,28 @@ describe('makeSteady', () => {
     const workout = makeSteady(profile, { totalMins: 30, intensity: 0.7, addStrides: false });
     expect(workout.segments).toHaveLength(3);
   });
+
+  it('takes custom warm-up, cool-down, and stride settings', () => {
+    const workout = makeSteady(profile, {
+      totalMins: 15,
+      intensity: 0.7,
+      warmupMins: 1,
+      cooldownMins: 2,
+      cooldownIntensity: 0.35,
+      strides: 3,
+      strideSecs: 30,
+      strideFloatSecs: 60,
+    });
+    expect(workout.segments[0]).toMatchObject({ phase: 'warmup', secs: 60 });
+    expect(workout.segments[workout.segments.length - 1]).toMatchObject({ phase: 'cooldown', secs: 120, speed: 1 });
+    const strides = workout.segments.filter((segment) => segment.phase === 'stride');
+    expect(strides.map((segment) => segment.secs)).toEqual([30, 30, 30]);
+    expect(workout.totalSecs).toBe(15 * 60);
+  });
+
+  it('drops the warm-up and cool-down when set to zero', () => {
+    const workout = makeSteady(profile, { totalMins: 20, warmupMins: 0, cooldownMins: 0, addStrides: false });
+    expect(workout.segments).toHaveLength(1);
+    expect(workout.segments[0]).toMatchObject({ label: 'Cruise', secs: 20 * 60 });
+  });
 });
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type DeviceProfile,
+  type WorkoutTemplate,
+  BUILTIN_TEMPLATES,
+  findTemplate,
+  mergeTemplates,
+  renderTemplate,
+  resolveTemplateSpec,
+} from '../src/index.js';
+
+const mph: DeviceProfile = { name: 'Pad', units: 'mph', speeds: [1, 1.5, 2, 2.5, 3, 3.5, 4] };
+const kph: DeviceProfile = { name: 'Gym', units: 'kph', speeds: [4, 6, 8, 10, 12, 14, 16], minSegmentSec: 30 };
+
+describe('workout templates', () => {
+  it('renders every built-in template for any device profile', () => {
+    for (const template of BUILTIN_TEMPLATES) {
+      for (const profile of [mph, kph]) {
+        const workout = renderTemplate(profile, template);
+        expect(workout.name).toBe(template.name);
+        expect(workout.segments.every((segment) => profile.speeds.includes(segment.speed))).toBe(true);
+      }
+    }
+  });
+
+  it('leaves out steps whose duration or repeat count is set to zero', () => {
+    const norwegian = findTemplate(BUILTIN_TEMPLATES, 'norwegian-4x4');
+    expect(resolveTemplateSpec(norwegian, { warmup: 0 })).toBe('4x(4m @90%, 3m @60%), 5m @warm');
+    expect(resolveTemplateSpec(norwegian, { rest: 0, cooldown: 0 })).toBe('10m @warm, 4x(4m @90%)');
+    expect(resolveTemplateSpec(norwegian, { repeats: 0 })).toBe('10m @warm, 5m @warm');
+    expect(renderTemplate(mph, norwegian, { warmup: 0 }).segments[0].phase).toBe('work');
+    expect(() => resolveTemplateSpec(findTemplate(BUILTIN_TEMPLATES, 'recovery-walk'), { walk: 0 })).toThrow(
+      'no steps left',
+    );
+  });
+
+  it('drops zeroed steps and repeats joined with "/"', () => {
+    const custom = (spec: string, params: Record<string, number>): WorkoutTemplate => ({
+      id: 'custom',
+      name: 'Custom',
+      description: '',
+      spec,
+      params,
+    });
+    expect(resolveTemplateSpec(custom('{a}m @easy / 30s @hard', { a: 0 }))).toBe('30s @hard');
+    expect(resolveTemplateSpec(custom('30s @hard / {a}m @easy, 5m @warm', { a: 0 }))).toBe('30s @hard, 5m @warm');
+    const strides = custom('10m @warm, {n}x20s @90% / 40s @cruise, 5m @warm', { n: 0 });
+    expect(resolveTemplateSpec(strides)).toBe('10m @warm, 5m @warm');
+    expect(resolveTemplateSpec(strides, { n: 4 })).toBe('10m @warm, 4x20s @90% / 40s @cruise, 5m @warm');
+    expect(resolveTemplateSpec(custom('4x{on}s @90% / 40s @cruise', { on: 0 }))).toBe('4x40s @cruise');
+  });
+
+  it('builds the Norwegian 4x4 from its defaults', () => {
+    const workout = renderTemplate(mph, findTemplate(BUILTIN_TEMPLATES, 'norwegian-4x4'));
+    const work = workout.segments.filter((segment) => segment.phase === 'work');
+    expect(work).toHaveLength(4);
+    expect(work.every((segment) => segment.secs === 240)).toBe(true);
+    expect(workout.totalSecs).toBe((10 + 4 * 4 + 4 * 3 + 5) * 60);
+  });
+
+  it('applies parameter overrides', () => {
+    const template = findTemplate(BUILTIN_TEMPLATES, 'tempo-20');
+    expect(resolveTemplateSpec(template, { tempo: 25 })).toBe('10m @warm, 25m @80%, 10m @warm');
+    expect(renderTemplate(mph, template, { tempo: 25, cooldown: 5 }).totalSecs).toBe(40 * 60);
+  });
+
+  it('rejects unknown parameters and templates', () => {
+    const template = findTemplate(BUILTIN_TEMPLATES, 'recovery-walk');
+    expect(() => resolveTemplateSpec(template, { pace: 3 })).toThrow(
+      'Template "recovery-walk" has no parameter "pace" (expected one of: walk, intensity).',
+    );
+    expect(() => findTemplate(BUILTIN_TEMPLATES, 'fartlek')).toThrow('Unknown template "fartlek"');
+    expect(() =>
+      resolveTemplateSpec({ id: 'broken', name: 'Broken', description: '', spec: '{mins}m @easy', params: {} }),
+    ).toThrow('Template "broken" uses {mins} but has no default for it.');
+  });
+
+  it('lets user templates add to and replace built-in ones', () => {
+    const merged = mergeTemplates([
+      { id: 'tempo-20', name: 'Long tempo', description: '', spec: '{mins}m @cruise', params: { mins: 30 } },
+      { id: 'hill-walk', name: 'Hill walk', description: '', spec: '{mins}m @easy', params: { mins: 45 } },
+    ]);
+    expect(merged).toHaveLength(BUILTIN_TEMPLATES.length + 1);
+    expect(findTemplate(merged, 'tempo-20').name).toBe('Long tempo');
+    expect(renderTemplate(mph, findTemplate(merged, 'hill-walk')).totalSecs).toBe(45 * 60);
+  });
+});
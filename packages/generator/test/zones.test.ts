@@ -0,0 +1,48 @@
+import { describe as suite, expect, it } from 'vitest';
+import { type DeviceProfile, describe, makeHills, makeSteady, zoneForSpeed, zoneHeartRate } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3, 3.5],
+  inclines: [0, 2, 4, 6],
+  minSegmentSec: 30,
+  rampLimitPerChange: 3,
+  user: { maxHr: 180, zoneSpeeds: { z1: 1.5, z2: 2.1, z3: 2.5, z4: 3, z5: 3.5 } },
+};
+
+suite('heart-rate zones', () => {
+  it('derives zone bounds from LTHR when present, otherwise max HR', () => {
+    expect(zoneHeartRate({ maxHr: 180 }, 'z2')).toEqual({ low: 108, high: 126 });
+    expect(zoneHeartRate({ maxHr: 180, lthr: 160 }, 'z4')).toEqual({ low: 152, high: 158 });
+    expect(zoneHeartRate({}, 'z2')).toBeUndefined();
+  });
+
+  it('maps speeds to the nearest calibrated zone', () => {
+    expect(zoneForSpeed(profile.user, 2)).toBe('z2');
+    expect(zoneForSpeed(profile.user, 3.2)).toBe('z4');
+    expect(zoneForSpeed({ maxHr: 180 }, 2)).toBeUndefined();
+  });
+
+  it('targets zones through the calibrated speeds', () => {
+    const workout = makeSteady(profile, { totalMins: 20, zone: 'z2', intensity: 0.9, addStrides: false });
+
+    expect(workout.segments[1]).toMatchObject({
+      speed: 2,
+      targetSpeed: 2.1,
+      zone: 'z2',
+      hr: { low: 108, high: 126 },
+    });
+    expect(describe(workout).split('\n')[1]).toBe('05:00–15:00  @ 2 mph (30:00/mi, Z2 108–126 bpm)  Cruise @ 2 mph');
+  });
+
+  it('prefers absolute speeds over zones and fails on missing calibration', () => {
+    const hills = makeHills(profile, { pattern: 'repeats', zone: 'z5', speed: 2.5, recoveryZone: 'z1' });
+    expect(hills.segments.find((segment) => segment.phase === 'work')?.speed).toBe(2.5);
+    expect(hills.segments.find((segment) => segment.phase === 'recovery')?.zone).toBe('z1');
+
+    expect(() => makeSteady({ ...profile, user: { maxHr: 180 } }, { zone: 'z3' })).toThrow(
+      /no speed calibration for Z3/,
+    );
+  });
+});
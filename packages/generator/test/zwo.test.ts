@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { type DeviceProfile, encodeZwoWorkout, makeIntervals, makeSteady } from '../src/index.js';
+
+const profile: DeviceProfile = {
+  name: 'Test Device',
+  units: 'mph',
+  speeds: [1, 1.5, 2, 2.5, 3],
+  minSegmentSec: 30,
+  rampLimitPerChange: 2,
+};
+
+describe('ZWO export', () => {
+  it('writes repeat pairs as IntervalsT and bookends as Warmup/Cooldown', () => {
+    const workout = makeIntervals(profile, { repeats: 6, hardSecs: 90, easySecs: 60, name: 'Tempo & Float' });
+    const xml = encodeZwoWorkout(workout, { referenceSpeed: 3 });
+
+    expect(xml).toContain('<name>Tempo &amp; Float</name>');
+    expect(xml).toContain('<sportType>run</sportType>');
+    expect(xml).toContain('<Warmup Duration="300" PowerLow="0.5" PowerHigh="0.5" pace="0">');
+    expect(xml).toContain(
+      '<IntervalsT Repeat="6" OnDuration="90" OffDuration="60" OnPower="0.833" OffPower="0.5" pace="0">',
+    );
+    expect(xml).toContain('<textevent timeoffset="0" message="Hard @ 2.5 mph"/>');
+    expect(xml).toContain('<Cooldown Duration="300"');
+    expect(xml.match(/<SteadyState /g)).toBeNull();
+  });
+
+  it('collapses inserted ramp steps into a Ramp element', () => {
+    const stepped: DeviceProfile = { ...profile, rampLimitPerChange: 0.5, rampPolicy: 'step', minSegmentSec: 15 };
+    const workout = makeIntervals(stepped, { repeats: 2, hardSecs: 120, easySecs: 120 });
+    const xml = encodeZwoWorkout(workout, { referenceSpeed: 3 });
+
+    expect(workout.segments.some((segment) => segment.phase === 'ramp')).toBe(true);
+    expect(xml).toMatch(/<Ramp Duration="\d+" PowerLow="0\.667" PowerHigh="0\.667" pace="0">/);
+    expect(xml).not.toContain('IntervalsT');
+  });
+
+  it('defaults the reference speed to the fastest segment', () => {
+    const workout = makeSteady(profile, { totalMins: 20, addStrides: false });
+    const xml = encodeZwoWorkout(workout);
+
+    expect(xml).toMatch(/<SteadyState Duration="\d+" Power="1" pace="0">/);
+  });
+});